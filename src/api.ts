@@ -0,0 +1,160 @@
+import { applyBaseline, readBaseline } from './baseline';
+import { GraphAnalyzer } from './graph';
+import { OrderOrder } from './orderorder';
+import { applySince, changedLinesSince } from './since';
+import {
+  AnalysisLevel,
+  AnalysisResult,
+  AnalyzeOptions,
+  BaselineSummary,
+  CacheStats,
+  DependencyCycle,
+  DependencyGraph,
+  DependencyRule,
+  FeedbackArc,
+  ModuleDependency,
+  ModuleInfo,
+  UnresolvedImport
+} from './types';
+
+// Bumped whenever a field of SerializedAnalysis is removed or changes meaning; additions keep the version
+export const RESULT_SCHEMA_VERSION = 1;
+
+export interface ProjectAnalysisOptions extends AnalyzeOptions {
+  // Source directories to analyse (defaults to the current directory)
+  roots?: string[];
+  exclude?: string[];
+  // Baseline file of known violations to leave out of the result, if it exists
+  baseline?: string;
+  // Only keep findings from imports changed since this git ref
+  since?: string;
+}
+
+export type SerializedRule = Omit<DependencyRule, 'check'>;
+
+export interface SerializedRuleViolation {
+  rule: SerializedRule;
+  ruleIndex: number;
+  from: string;
+  to: string;
+  dependencies: ModuleDependency[];
+}
+
+// Plain JSON: every Map and Set of AnalysisResult is turned into objects and arrays
+export interface SerializedAnalysis {
+  schemaVersion: typeof RESULT_SCHEMA_VERSION;
+  level: AnalysisLevel;
+  isAcyclic: boolean;
+  summary: {
+    modules: number;
+    imports: number;
+    prefixes: number;
+    violations: number;
+    feedbackArcs: number;
+    cycles: number;
+    typeOnlyViolations: number;
+    ruleViolations: number;
+    unresolvedImports: number;
+    unparsedFiles: number;
+  };
+  modules: ModuleInfo[];
+  prefixDependencies: Record<string, string[]>;
+  // Strongly connected components with more than one prefix, each sorted, in a stable order
+  stronglyConnectedComponents: string[][];
+  feedbackArcs: FeedbackArc[];
+  cycles: DependencyCycle[];
+  violations: ModuleDependency[];
+  typeOnlyViolations: ModuleDependency[];
+  ruleViolations: SerializedRuleViolation[];
+  unresolvedImports: UnresolvedImport[];
+  unparsedFiles: string[];
+  baseline?: BaselineSummary;
+  since?: { ref: string; changedFiles: number };
+  // Workspaces only: the imports between packages, with modules grouped by the package they belong to
+  packages?: {
+    packageDependencies: Record<string, string[]>;
+    stronglyConnectedComponents: string[][];
+    feedbackArcs: FeedbackArc[];
+    cycles: DependencyCycle[];
+    violations: ModuleDependency[];
+  };
+  cache?: CacheStats;
+}
+
+function serializeDependencies(graph: DependencyGraph): Record<string, string[]> {
+  return Object.fromEntries(
+    Array.from(graph.prefixDependencies.keys()).sort().map(prefix => [prefix, Array.from(graph.prefixDependencies.get(prefix)!).sort()])
+  );
+}
+
+function serializeRule(rule: DependencyRule): SerializedRule {
+  const serialized: SerializedRule = { ...rule };
+  delete (serialized as DependencyRule).check;
+  return serialized;
+}
+
+export function serializeResult(result: AnalysisResult): SerializedAnalysis {
+  const analyzer = new GraphAnalyzer();
+  const modules = Array.from(result.graph.modules.values()).sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    schemaVersion: RESULT_SCHEMA_VERSION,
+    level: result.level,
+    isAcyclic: analyzer.isAcyclic(result.graph),
+    summary: {
+      modules: modules.length,
+      imports: modules.reduce((sum, module) => sum + module.dependencies.length, 0),
+      prefixes: new Set(result.graph.modulePrefixes.values()).size,
+      violations: result.violations.length,
+      feedbackArcs: result.feedbackArcs.length,
+      cycles: result.cycles.length,
+      typeOnlyViolations: result.typeOnlyViolations.length,
+      ruleViolations: result.ruleViolations.length,
+      unresolvedImports: result.unresolvedImports.length,
+      unparsedFiles: result.unparsedFiles.length
+    },
+    modules: modules.map(module => ({ ...module, dependencies: [...module.dependencies] })),
+    prefixDependencies: serializeDependencies(result.graph),
+    stronglyConnectedComponents: analyzer.findCyclicComponents(result.graph).map(component => Array.from(component)),
+    feedbackArcs: result.feedbackArcs,
+    cycles: result.cycles,
+    violations: result.violations,
+    typeOnlyViolations: result.typeOnlyViolations,
+    ruleViolations: result.ruleViolations.map(violation => ({ ...violation, rule: serializeRule(violation.rule) })),
+    unresolvedImports: result.unresolvedImports,
+    unparsedFiles: result.unparsedFiles,
+    ...(result.baseline ? { baseline: result.baseline } : {}),
+    ...(result.since ? { since: result.since } : {}),
+    ...(result.packages ? {
+      packages: {
+        packageDependencies: serializeDependencies(result.packages.graph),
+        stronglyConnectedComponents: analyzer.findCyclicComponents(result.packages.graph).map(component => Array.from(component)),
+        feedbackArcs: result.packages.feedbackArcs,
+        cycles: result.packages.cycles,
+        violations: result.packages.violations
+      }
+    } : {}),
+    ...(result.cache ? { cache: result.cache } : {})
+  };
+}
+
+/**
+ * Analyses a project the way the CLI does, without printing or exiting, and returns a result that
+ * survives JSON.stringify. Hooks: `resolveImport` for custom resolution, `prefixOf` for custom
+ * grouping and `rules` entries with a `check` predicate for custom rules.
+ */
+export async function analyze(options: ProjectAnalysisOptions = {}): Promise<SerializedAnalysis> {
+  const { roots, exclude, baseline: baselinePath, since, ...analyzeOptions } = options;
+  const directories = roots && roots.length > 0 ? roots : ['.'];
+  let result = await new OrderOrder().analyze(directories, exclude || [], analyzeOptions);
+
+  const baseline = baselinePath ? readBaseline(baselinePath) : null;
+  if (baseline) {
+    result = applyBaseline(result, baseline);
+  }
+  if (since) {
+    result = applySince(result, changedLinesSince(since), directories);
+  }
+
+  return serializeResult(result);
+}
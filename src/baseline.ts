@@ -0,0 +1,179 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { AnalysisResult, Baseline, BaselineEntry, DependencyRule, ModuleDependency } from './types';
+
+export const BASELINE_VERSION = 1;
+
+export class BaselineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BaselineError';
+  }
+}
+
+// Entries are keyed by module pair and import kind, never by line, so unrelated edits don't invalidate them
+function entryKey(entry: Omit<BaselineEntry, 'count'>): string {
+  return [entry.kind, entry.rule || '', entry.from, entry.to, entry.importType].join('\0');
+}
+
+function dependencyEntry(kind: BaselineEntry['kind'], dep: ModuleDependency, rule?: string): Omit<BaselineEntry, 'count'> {
+  return rule === undefined
+    ? { kind, from: dep.from, to: dep.to, importType: dep.importType }
+    : { kind, rule, from: dep.from, to: dep.to, importType: dep.importType };
+}
+
+function ruleLabel(rule: DependencyRule): string {
+  return rule.name || `${rule.from} -> ${rule.to}`;
+}
+
+function compareEntries(a: BaselineEntry, b: BaselineEntry): number {
+  return entryKey(a) < entryKey(b) ? -1 : entryKey(a) > entryKey(b) ? 1 : 0;
+}
+
+export function createBaseline(result: AnalysisResult): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+  const add = (entry: Omit<BaselineEntry, 'count'>): void => {
+    const key = entryKey(entry);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      entries.set(key, { ...entry, count: 1 });
+    }
+  };
+
+  for (const dep of result.violations) {
+    add(dependencyEntry('cycle', dep));
+  }
+  for (const ruleViolation of result.ruleViolations) {
+    for (const dep of ruleViolation.dependencies) {
+      add(dependencyEntry('rule', dep, ruleLabel(ruleViolation.rule)));
+    }
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    entries: Array.from(entries.values()).sort(compareEntries)
+  };
+}
+
+export interface BaselineUpdate {
+  baseline: Baseline;
+  // Violations missing from the old baseline that were recorded, or left out without `acceptNew`
+  added: number;
+  skipped: number;
+}
+
+/**
+ * Drops fixed entries from a baseline and lowers counts to what is still there. Violations the baseline
+ * doesn't know yet are only recorded with `acceptNew`, so updating it can't accept new ones by accident.
+ * Without an existing baseline every current violation is recorded, which is how a codebase adopts one.
+ */
+export function updateBaseline(existing: Baseline | null, result: AnalysisResult, acceptNew: boolean): BaselineUpdate {
+  const accept = acceptNew || existing === null;
+  const known = new Map<string, number>();
+  for (const entry of existing?.entries || []) {
+    known.set(entryKey(entry), (known.get(entryKey(entry)) || 0) + entry.count);
+  }
+
+  const entries: BaselineEntry[] = [];
+  let unknown = 0;
+  for (const entry of createBaseline(result).entries) {
+    const allowed = known.get(entryKey(entry)) || 0;
+    unknown += Math.max(0, entry.count - allowed);
+    const count = accept ? entry.count : Math.min(entry.count, allowed);
+    if (count > 0) {
+      entries.push({ ...entry, count });
+    }
+  }
+
+  return {
+    baseline: { version: BASELINE_VERSION, entries },
+    added: accept ? unknown : 0,
+    skipped: accept ? 0 : unknown
+  };
+}
+
+export function readBaseline(filePath: string): Baseline | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  let baseline: Baseline;
+  try {
+    baseline = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new BaselineError(`Failed to parse baseline ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.entries)) {
+    throw new BaselineError(`Unsupported baseline format in ${filePath}; delete it and run --update-baseline to record the current violations`);
+  }
+
+  return baseline;
+}
+
+export function writeBaseline(filePath: string, baseline: Baseline): void {
+  // One entry per line keeps reviews of baseline changes readable
+  const entries = baseline.entries.map(entry => `    ${JSON.stringify(entry)}`).join(',\n');
+  const content = `{\n  "version": ${baseline.version},\n  "entries": [${entries ? `\n${entries}\n  ` : ''}]\n}\n`;
+
+  writeFileSync(filePath, content);
+}
+
+export function applyBaseline(result: AnalysisResult, baseline: Baseline): AnalysisResult {
+  const remaining = new Map<string, number>();
+  for (const entry of baseline.entries) {
+    remaining.set(entryKey(entry), (remaining.get(entryKey(entry)) || 0) + entry.count);
+  }
+
+  let suppressed = 0;
+  const isKnown = (entry: Omit<BaselineEntry, 'count'>): boolean => {
+    const key = entryKey(entry);
+    const budget = remaining.get(key) || 0;
+    if (budget === 0) {
+      return false;
+    }
+    remaining.set(key, budget - 1);
+    suppressed++;
+    return true;
+  };
+
+  const violations = result.violations.filter(dep => !isKnown(dependencyEntry('cycle', dep)));
+  const newViolations = new Set(violations);
+
+  // Feedback arcs are made of cycle violations, so an arc is only new if one of its imports is
+  const feedbackArcs = result.feedbackArcs
+    .map(arc => ({ ...arc, violations: arc.violations.filter(dep => newViolations.has(dep)) }))
+    .filter(arc => arc.violations.length > 0);
+
+  // Likewise a cycle is only shown if one of its hops carries a new import
+  const newEdges = new Set(violations.map(dep =>
+    `${result.graph.modulePrefixes.get(dep.from)}\0${result.graph.modulePrefixes.get(dep.to)}`
+  ));
+  const cycles = result.cycles.filter(cycle => cycle.hops.some(hop => newEdges.has(`${hop.from}\0${hop.to}`)));
+
+  const ruleViolations = result.ruleViolations
+    .map(ruleViolation => {
+      const rule = ruleLabel(ruleViolation.rule);
+      const dependencies = ruleViolation.dependencies.filter(dep => !isKnown(dependencyEntry('rule', dep, rule)));
+      return { ...ruleViolation, dependencies };
+    })
+    .filter(ruleViolation => ruleViolation.dependencies.length > 0);
+
+  const fixed = baseline.entries
+    .filter(entry => (remaining.get(entryKey(entry)) || 0) > 0)
+    .map(entry => {
+      const count = remaining.get(entryKey(entry))!;
+      remaining.set(entryKey(entry), 0);
+      return { ...entry, count };
+    });
+
+  return {
+    ...result,
+    violations,
+    feedbackArcs,
+    cycles,
+    ruleViolations,
+    baseline: { suppressed, fixed }
+  };
+}
\ No newline at end of file
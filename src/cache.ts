@@ -0,0 +1,155 @@
+import { createHash } from 'crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { CacheStats, ImportType } from './types';
+
+export const DEFAULT_CACHE_LOCATION = join('node_modules', '.cache', 'ts-module-isolation');
+
+const CACHE_FILE_NAME = 'parse-cache.json';
+const CACHE_VERSION = 1;
+
+// An import as it appears in the source, before its specifier is resolved to a module
+export interface ScannedImport {
+  specifier: string;
+  importType: ImportType;
+  line: number;
+  column: number;
+  // Last line of the import statement; set only when it spans several lines
+  endLine?: number;
+  symbols?: string[];
+}
+
+// What scanning a file produced; `imports` is null when its hash matched the one the cache already knew
+export interface ScanResult {
+  hash: string;
+  imports: ScannedImport[] | null;
+}
+
+interface FileEntry {
+  hash: string;
+  imports: ScannedImport[];
+}
+
+interface ResolutionTable {
+  // Hash of the resolver configuration and every source file path under the root; resolutions are only reused while it matches
+  fingerprint: string;
+  entries: Record<string, string | null>;
+}
+
+interface CacheContents {
+  version: number;
+  key: string;
+  files: Record<string, FileEntry>;
+  resolutions: Record<string, ResolutionTable>;
+}
+
+export function hashOf(value: string): string {
+  return createHash('sha1').update(value).digest('hex');
+}
+
+/**
+ * Scanned imports keyed by file content hash, plus a per-root table of resolved specifiers.
+ * `key` identifies the parser version; a cache written under a different key is discarded as a whole.
+ */
+export class ParseCache {
+  readonly stats: CacheStats = { fileHits: 0, fileMisses: 0, resolutionHits: 0, resolutionMisses: 0 };
+  private readonly filePath: string;
+  private contents: CacheContents;
+  // Only entries touched in this run are written back, so deleted files don't accumulate
+  private readonly usedFiles = new Set<string>();
+  private readonly usedRoots = new Set<string>();
+
+  constructor(readonly location: string, private readonly key: string) {
+    this.filePath = join(location, CACHE_FILE_NAME);
+    this.contents = this.load();
+  }
+
+  // Hash of the file's content when it was last scanned, so scanners can skip unchanged files
+  knownHash(filePath: string): string | undefined {
+    return this.contents.files[filePath]?.hash;
+  }
+
+  record(filePath: string, { hash, imports }: ScanResult): ScannedImport[] {
+    const cached = this.contents.files[filePath];
+    this.usedFiles.add(filePath);
+
+    if (cached && cached.hash === hash) {
+      this.stats.fileHits++;
+      return cached.imports;
+    }
+
+    this.stats.fileMisses++;
+    this.contents.files[filePath] = { hash, imports: imports || [] };
+    return imports || [];
+  }
+
+  // Adding or removing a file can change what specifiers resolve to, and so can a tsconfig edit
+  useRoot(root: string, sourceFiles: string[], resolverConfig: string): void {
+    const fingerprint = hashOf([resolverConfig, ...[...sourceFiles].sort()].join('\n'));
+    const table = this.contents.resolutions[root];
+    if (!table || table.fingerprint !== fingerprint) {
+      this.contents.resolutions[root] = { fingerprint, entries: {} };
+    }
+    this.usedRoots.add(root);
+  }
+
+  resetResolutions(): void {
+    for (const table of Object.values(this.contents.resolutions)) {
+      table.fingerprint = '';
+      table.entries = {};
+    }
+  }
+
+  resolution(root: string, key: string, resolve: () => string | null): string | null {
+    const table = this.contents.resolutions[root];
+    if (!table) {
+      return resolve();
+    }
+
+    if (key in table.entries) {
+      this.stats.resolutionHits++;
+      return table.entries[key];
+    }
+
+    this.stats.resolutionMisses++;
+    const resolved = resolve();
+    table.entries[key] = resolved;
+    return resolved;
+  }
+
+  save(): void {
+    const contents: CacheContents = {
+      version: CACHE_VERSION,
+      key: this.key,
+      files: {},
+      resolutions: {}
+    };
+    for (const filePath of Array.from(this.usedFiles).sort()) {
+      contents.files[filePath] = this.contents.files[filePath];
+    }
+    for (const root of Array.from(this.usedRoots).sort()) {
+      contents.resolutions[root] = this.contents.resolutions[root];
+    }
+
+    // Write to a temporary file first so an interrupted run never leaves a truncated cache behind
+    try {
+      mkdirSync(this.location, { recursive: true });
+      const temporary = `${this.filePath}.${process.pid}.tmp`;
+      writeFileSync(temporary, JSON.stringify(contents));
+      renameSync(temporary, this.filePath);
+    } catch (error) {
+      console.warn(`Failed to write cache ${this.filePath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  private load(): CacheContents {
+    const empty = { version: CACHE_VERSION, key: this.key, files: {}, resolutions: {} };
+    try {
+      const contents = JSON.parse(readFileSync(this.filePath, 'utf-8')) as CacheContents;
+      return contents.version === CACHE_VERSION && contents.key === this.key ? contents : empty;
+    } catch {
+      // A missing or unreadable cache just means a cold run
+      return empty;
+    }
+  }
+}
@@ -1,8 +1,249 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option, OptionValues } from 'commander';
 import { writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { createReporter } from './reporters';
+import { formatCycleDiff } from './watch';
+import { DEFAULT_CACHE_LOCATION } from './cache';
+import { DEFAULT_CONCURRENCY } from './pool';
+import { applySince, changedLinesSince } from './since';
+import { applyBaseline, readBaseline, updateBaseline, writeBaseline } from './baseline';
+import { loadConfig } from './config';
 import { OrderOrder } from './orderorder';
+import { formatMoveDiff, formatMoveSummary } from './move';
+import { MetricsFormat, compareMetrics, computeMetrics, formatMetrics, formatMetricsComparison, readMetricsSnapshot } from './metrics';
+import { UnusedFormat, formatUnused } from './unused';
+import { AnalyzeOptions, LayerRule, OutputConfig, ReportFormat } from './types';
+
+interface Settings {
+  directories: string[];
+  exclude: string[];
+  baseline: string;
+  // Globs of entry points for `unused`, absolute when they come from a config file
+  entries: string[];
+  additionalEntries: string[];
+  failOnUnresolved: boolean;
+  analyze: AnalyzeOptions;
+  output: OutputConfig & { format: ReportFormat };
+}
+
+// `json: true` and `dot: true` predate `format` and are still accepted in config files
+function legacyFormat(output: OutputConfig | undefined): ReportFormat | undefined {
+  if (output?.json) {
+    return 'json';
+  }
+  return output?.dot ? 'dot' : undefined;
+}
+
+// Values given on the command line win over the config file, which wins over option defaults
+function resolveSettings(directories: string[], options: OptionValues, command: Command): Settings {
+  const loaded = loadConfig(options.config);
+  const config = loaded ? loaded.config : {};
+  const fromCli = (key: string): boolean => {
+    const source = command.getOptionValueSource(key);
+    return source !== undefined && source !== 'default';
+  };
+  const pick = <T>(key: string, configValue: T | undefined): T => {
+    return fromCli(key) || configValue === undefined ? options[key] : configValue;
+  };
+  
+  if (loaded && pick('verbose', config.output?.verbose)) {
+    console.log(`Using config file: ${loaded.path}`);
+  }
+  
+  return {
+    // Default to current directory if no directories provided
+    directories: directories.length > 0 ? directories : config.roots || ['.'],
+    exclude: pick('exclude', config.exclude),
+    baseline: pick('baseline', config.baseline),
+    entries: pick('entry', config.entries) || [],
+    additionalEntries: pick('addEntry', config.additionalEntries) || [],
+    failOnUnresolved: Boolean(pick('failOnUnresolved', config.failOnUnresolved)),
+    analyze: {
+      level: pick('level', config.level),
+      extensions: pick('extensions', config.extensions),
+      typeImports: pick('typeImports', config.typeImports),
+      prefix: {
+        maxDepth: pick('prefixDepth', config.prefix?.maxDepth),
+        layers: pick('layer', config.prefix?.layers)
+      },
+      groupByPackage: pick('groupPackages', config.prefix?.groupByPackage),
+      allowedEdges: config.allowedEdges,
+      rules: config.rules,
+      maxCycles: pick('maxCycles', config.maxCycles),
+      concurrency: pick('concurrency', config.concurrency),
+      cacheLocation: pick('cache', config.cache) ? pick('cacheLocation', config.cacheLocation) : undefined
+    },
+    output: {
+      format: pick('format', config.output?.format || legacyFormat(config.output)),
+      file: pick('output', config.output?.file),
+      verbose: pick('verbose', config.output?.verbose)
+    }
+  };
+}
+
+function collect<T>(value: T, previous: T[]): T[] {
+  return previous ? [...previous, value] : [value];
+}
+
+function parseExtensions(value: string): string[] {
+  return value.split(',').map(ext => ext.trim()).filter(ext => ext.length > 0)
+    .map(ext => ext.startsWith('.') ? ext : `.${ext}`);
+}
+
+// The options of the analysis itself, given to the program and to `check`
+function withAnalysisOptions(command: Command): Command {
+  return command
+    .argument('[directories...]', 'Source directories to analyze (defaults to current directory)')
+    .option('-o, --output <file>', 'Write report to file instead of stdout')
+    .addOption(new Option('-f, --format <format>', 'Output format')
+      .choices(['text', 'json', 'dot', 'sarif', 'github', 'gitlab', 'html', 'mermaid'])
+      .default('text'))
+    .addOption(new Option('--dot', 'Generate DOT graph output (same as --format dot)').implies({ format: 'dot' }))
+    .addOption(new Option('--json', 'Output results in JSON format (same as --format json)').implies({ format: 'json' }))
+    .option('--focus <prefix>', 'Only draw prefixes matching this glob and their neighbours (dot and mermaid formats)')
+    .option('--depth <hops>', 'How many import hops around --focus to draw', (value: string) => {
+      const hops = Number(value);
+      if (!Number.isInteger(hops) || hops < 0) {
+        throw new InvalidArgumentError('Hops must be a non-negative integer.');
+      }
+      return hops;
+    }, 1)
+    .option('--collapse', 'Draw prefixes outside --focus as one node per top-level directory instead of leaving them out')
+    .option('--verbose', 'Show detailed analysis information')
+    .option('--exclude <pattern>', 'Exclude directories matching the glob pattern (can be specified multiple times)', collect<string>, [] as string[])
+    .addOption(new Option('--level <level>', 'Analyze dependencies between module prefixes or between individual modules')
+      .choices(['prefix', 'module'])
+      .default('prefix'))
+    .addOption(new Option('--type-imports <policy>', 'How to treat type-only imports: include them, ignore them, or report their cycles as warnings')
+      .choices(['include', 'ignore', 'warn'])
+      .default('include'))
+    .addOption(new Option('--ignore-type-imports', 'Leave type-only imports out of the analysis (same as --type-imports ignore)')
+      .implies({ typeImports: 'ignore' }))
+    .option('--prefix-depth <depth>', 'Group module prefixes at most this many path segments deep', (value: string) => {
+      const depth = Number(value);
+      if (!Number.isInteger(depth) || depth < 1) {
+        throw new InvalidArgumentError('Depth must be a positive integer.');
+      }
+      return depth;
+    })
+    .option('--layer <pattern=layer>', 'Group modules matching the glob pattern into the named layer (can be specified multiple times)', (value: string, previous: LayerRule[]) => {
+      const separator = value.lastIndexOf('=');
+      if (separator <= 0 || separator === value.length - 1) {
+        throw new InvalidArgumentError('Expected <pattern>=<layer>.');
+      }
+      const rule = { pattern: value.slice(0, separator), layer: value.slice(separator + 1) };
+      return previous ? [...previous, rule] : [rule];
+    }, [] as LayerRule[])
+    .option('--group-packages', 'Treat each package (directory with its own package.json) as a single prefix')
+    .option('--extensions <list>', 'Comma-separated list of source file extensions to analyze', parseExtensions)
+    .option('--max-cycles <count>', 'Report at most this many cycles', (value: string) => {
+      const count = Number(value);
+      if (!Number.isInteger(count) || count < 0) {
+        throw new InvalidArgumentError('Count must be a non-negative integer.');
+      }
+      return count;
+    })
+    .option('-c, --config <file>', 'Read options from this config file instead of searching for one')
+    .option('--baseline <file>', 'Known violations that should not fail the run', '.module-isolation-baseline.json')
+    .option('--update-baseline', 'Record the current violations in a new baseline file, or remove fixed ones from an existing one')
+    .option('--accept-new-violations', 'With --update-baseline, also record violations the baseline does not know yet')
+    .option('--since <ref>', 'Only report findings from imports added or changed since this git ref')
+    .option('--fail-on-unresolved', 'Fail when a relative, path alias or workspace package import leads to no file')
+    .option('--cache', 'Reuse parse results of unchanged files from earlier runs')
+    .option('--no-cache', 'Parse every file even if the config file enables the cache')
+    .option('--cache-location <dir>', 'Directory to keep the parse cache in', DEFAULT_CACHE_LOCATION)
+    .option('--concurrency <threads>', 'Number of threads scanning files', (value: string) => {
+      const threads = Number(value);
+      if (!Number.isInteger(threads) || threads < 1) {
+        throw new InvalidArgumentError('Threads must be a positive integer.');
+      }
+      return threads;
+    }, DEFAULT_CONCURRENCY)
+    .option('-w, --watch', 'Keep running and report cycles introduced or resolved as files change');
+}
+
+async function check(directories: string[], cliOptions: OptionValues, command: Command): Promise<void> {
+  try {
+    const { directories: roots, exclude, baseline: baselinePath, failOnUnresolved, analyze, output: options } =
+      resolveSettings(directories || [], cliOptions, command);
+    const orderorder = new OrderOrder();
+    
+    if (options.verbose) {
+      console.log(`Analyzing directories: ${roots.join(', ')}`);
+      if (exclude.length > 0) {
+        console.log(`Excluding patterns: ${exclude.join(', ')}`);
+      }
+    }
+    
+    if (cliOptions.watch) {
+      const { analysis } = await orderorder.watch(roots, exclude, analyze, diff => console.log(formatCycleDiff(diff)));
+      console.log(`Watching ${roots.join(', ')} for changes (${analysis.cycles.length} cycle(s) found)`);
+      for (const cycle of analysis.cycles) {
+        console.log(`  ${cycle.prefixes.join(' -> ')}`);
+      }
+      return;
+    }
+    
+    let result = await orderorder.analyze(roots, exclude, analyze);
+    
+    if (options.verbose && result.cache) {
+      const { fileHits, fileMisses, resolutionHits, resolutionMisses } = result.cache;
+      console.log(`Parse cache (${analyze.cacheLocation}): ${fileHits} of ${fileHits + fileMisses} files unchanged, ` +
+        `${resolutionHits} of ${resolutionHits + resolutionMisses} resolutions reused`);
+    }
+    
+    if (cliOptions.updateBaseline) {
+      const { baseline, added, skipped } = updateBaseline(readBaseline(baselinePath), result, Boolean(cliOptions.acceptNewViolations));
+      // A failed update leaves the file alone, so the fixed entries it would drop are still there for the retry
+      if (skipped > 0) {
+        console.error(`Baseline ${baselinePath} not updated: ${skipped} violation(s) are not in it; ` +
+          'pass --accept-new-violations to record them');
+        process.exit(1);
+      }
+      writeBaseline(baselinePath, baseline);
+      console.log(`Baseline with ${baseline.entries.length} entries written to ${baselinePath}` +
+        (added > 0 ? ` (${added} new violation(s) accepted)` : ''));
+      return;
+    }
+    
+    const baseline = readBaseline(baselinePath);
+    if (baseline) {
+      if (options.verbose) {
+        console.log(`Using baseline: ${baselinePath}`);
+      }
+      result = applyBaseline(result, baseline);
+    }
+    
+    if (cliOptions.since) {
+      result = applySince(result, changedLinesSince(cliOptions.since), roots);
+    }
+    
+    const reporter = createReporter(options.format, orderorder, {
+      focus: cliOptions.focus,
+      depth: cliOptions.depth,
+      collapse: cliOptions.collapse
+    }, analyze.rules);
+    const output = reporter.render(result);
+    
+    if (options.file) {
+      writeFileSync(options.file, output);
+      console.log(`${reporter.label} written to ${options.file}`);
+    } else {
+      console.log(output);
+    }
+    
+    const hasViolations = result.violations.length > 0 || result.feedbackArcs.length > 0 ||
+      result.ruleViolations.length > 0 || result.unparsedFiles.length > 0 ||
+      (failOnUnresolved && result.unresolvedImports.length > 0);
+    process.exit(hasViolations ? 1 : 0);
+    
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+}
 
 const program = new Command();
 
@@ -10,80 +251,117 @@ program
   .name('orderorder')
   .description('Analyze TypeScript/JavaScript module dependencies to prevent jumbling of module prefixes')
   .version('1.0.0')
-  .argument('[directories...]', 'Source directories to analyze (defaults to current directory)')
-  .option('-o, --output <file>', 'Write report to file instead of stdout')
-  .option('--dot', 'Generate DOT graph output to stdout')
-  .option('--json', 'Output results in JSON format')
-  .option('--verbose', 'Show detailed analysis information')
-  .option('--exclude <pattern>', 'Exclude directories matching the glob pattern (can be specified multiple times)', (value: string, previous: string[]) => {
-    return previous ? [...previous, value] : [value];
-  }, [] as string[])
-  .action((directories: string[], options) => {
-    // Default to current directory if no directories provided
-    if (!directories || directories.length === 0) {
-      directories = ['.'];
-    }
+  // Options after a command name belong to that command, even where the main analysis has one of the same name
+  .enablePositionalOptions();
+
+withAnalysisOptions(program).action(check);
+
+// Directories named like a command can be analysed through `check`, e.g. `check metrics`
+withAnalysisOptions(program
+  .command('check')
+  .description('Analyze the directories; the same as leaving out the command')).action(check);
+
+program
+  .command('move')
+  .description('Move a source file, rewrite every import of it and show how the cycles change')
+  .argument('<from>', 'Source file to move')
+  .argument('<to>', 'New path of the file, or a directory to move it into (a new one ends with /)')
+  .option('--dry-run', 'Print the changes as a unified diff instead of applying them')
+  .option('--root <dir>', 'Source directory to analyze (can be specified multiple times; defaults to the config file roots or the current directory)', collect<string>, [] as string[])
+  .option('--exclude <pattern>', 'Exclude directories matching the glob pattern (can be specified multiple times)', collect<string>, [] as string[])
+  .option('--extensions <list>', 'Comma-separated list of source file extensions to analyze', parseExtensions)
+  .option('-c, --config <file>', 'Read options from this config file instead of searching for one')
+  .action(async (from: string, to: string, cliOptions, command: Command) => {
     try {
-      const orderorder = new OrderOrder();
+      const { directories: roots, exclude, analyze } = resolveSettings(cliOptions.root, cliOptions, command);
+      const dryRun = Boolean(cliOptions.dryRun);
+      const { plan, before, after } = await new OrderOrder().move(roots, exclude, analyze, from, to, dryRun);
       
-      if (options.verbose) {
-        console.log(`Analyzing directories: ${directories.join(', ')}`);
-        if (options.exclude.length > 0) {
-          console.log(`Excluding patterns: ${options.exclude.join(', ')}`);
-        }
+      if (dryRun) {
+        console.log(formatMoveDiff(plan));
+        console.log('');
       }
+      console.log(formatMoveSummary(plan, before, after, dryRun));
+      process.exit(0);
       
-      const result = orderorder.analyze(directories, options.exclude);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const metrics = program
+  .command('metrics')
+  .description('Report coupling, instability, depth and cycle size per module prefix and the imports behind each edge')
+  .argument('[directories...]', 'Source directories to analyze (defaults to current directory)')
+  .addOption(new Option('-f, --format <format>', 'Output format').choices(['table', 'json', 'csv']).default('table'))
+  .option('-o, --output <file>', 'Write metrics to file instead of stdout')
+  .option('--exclude <pattern>', 'Exclude directories matching the glob pattern (can be specified multiple times)', collect<string>, [] as string[])
+  .option('--extensions <list>', 'Comma-separated list of source file extensions to analyze', parseExtensions)
+  .option('-c, --config <file>', 'Read options from this config file instead of searching for one')
+  .action(async (directories: string[], cliOptions, command: Command) => {
+    try {
+      const { directories: roots, exclude, analyze } = resolveSettings(directories || [], cliOptions, command);
+      const result = await new OrderOrder().analyze(roots, exclude, analyze);
+      const output = formatMetrics(computeMetrics(result.graph), cliOptions.format as MetricsFormat);
       
-      if (options.json) {
-        const totalImports = Array.from(result.graph.modules.values())
-          .reduce((sum, module) => sum + module.dependencies.length, 0);
-        
-        const jsonOutput = {
-          summary: {
-            totalModules: result.graph.modules.size,
-            totalImports: totalImports,
-            prefixCount: result.graph.prefixDependencies.size,
-            violationCount: result.violations.length,
-            feedbackArcCount: result.feedbackArcs.length,
-            isAcyclic: orderorder['analyzer'].isAcyclic(result.graph)
-          },
-          feedbackArcs: result.feedbackArcs,
-          violations: result.violations,
-          prefixDependencies: Object.fromEntries(
-            Array.from(result.graph.prefixDependencies.entries()).map(
-              ([key, value]) => [key, Array.from(value)]
-            )
-          )
-        };
-        
-        const output = JSON.stringify(jsonOutput, null, 2);
-        
-        if (options.output) {
-          writeFileSync(options.output, output);
-          console.log(`JSON report written to ${options.output}`);
-        } else {
-          console.log(output);
-        }
+      if (cliOptions.output) {
+        writeFileSync(cliOptions.output, output);
+        console.log(`Metrics written to ${cliOptions.output}`);
       } else {
-        const report = orderorder.generateReport(result);
-        
-        if (options.output) {
-          writeFileSync(options.output, report);
-          console.log(`Report written to ${options.output}`);
-        } else {
-          console.log(report);
-        }
+        console.log(output);
       }
+      process.exit(0);
       
-      if (options.dot) {
-        const dotGraph = orderorder.generateDotGraph(result.graph, result.feedbackArcs);
-        console.log(dotGraph);
-        return;
-      }
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+metrics
+  .command('compare')
+  .description('Compare two JSON metrics snapshots and fail if the second one regressed')
+  .argument('<before>', 'Earlier snapshot, written by `metrics --format json`')
+  .argument('<after>', 'Later snapshot')
+  .action((before: string, after: string) => {
+    try {
+      const changes = compareMetrics(readMetricsSnapshot(before), readMetricsSnapshot(after));
+      console.log(formatMetricsComparison(changes));
+      process.exit(changes.some(change => change.regression) ? 1 : 0);
       
-      const hasViolations = result.violations.length > 0 || result.feedbackArcs.length > 0;
-      process.exit(hasViolations ? 1 : 0);
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('unused')
+  .description('Report modules unreachable from the entry points, prefixes nothing imports and imports of missing files')
+  .argument('[directories...]', 'Source directories to analyze (defaults to current directory)')
+  .option('--entry <glob>', 'Entry point files (can be specified multiple times; defaults to main, module, bin and exports of package.json)', collect<string>, [] as string[])
+  .option('--add-entry <glob>', 'Entry point files to use alongside those of package.json, like worker scripts (can be specified multiple times)', collect<string>, [] as string[])
+  .addOption(new Option('-f, --format <format>', 'Output format').choices(['text', 'json']).default('text'))
+  .option('-o, --output <file>', 'Write the report to file instead of stdout')
+  .option('--exclude <pattern>', 'Exclude directories matching the glob pattern (can be specified multiple times)', collect<string>, [] as string[])
+  .option('--extensions <list>', 'Comma-separated list of source file extensions to analyze', parseExtensions)
+  .option('-c, --config <file>', 'Read options from this config file instead of searching for one')
+  .action(async (directories: string[], cliOptions, command: Command) => {
+    try {
+      const { directories: roots, exclude, entries, additionalEntries, analyze } = resolveSettings(directories || [], cliOptions, command);
+      const report = await new OrderOrder().findUnused(roots, exclude, analyze, entries.map(pattern => resolve(pattern)),
+        additionalEntries.map(pattern => resolve(pattern)));
+      const output = formatUnused(report, cliOptions.format as UnusedFormat);
+      
+      if (cliOptions.output) {
+        writeFileSync(cliOptions.output, output);
+        console.log(`Report written to ${cliOptions.output}`);
+      } else {
+        console.log(output);
+      }
+      // Prefixes without importers are often intended, like scripts or tests, so they don't fail the run
+      process.exit(report.unreachableModules.length > 0 || report.unresolvedImports.length > 0 ? 1 : 0);
       
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : String(error));
@@ -91,4 +369,4 @@ program
     }
   });
 
-program.parse();
\ No newline at end of file
+program.parseAsync();
\ No newline at end of file
@@ -0,0 +1,243 @@
+import Ajv from 'ajv';
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { basename, dirname, extname, join, resolve } from 'path';
+import * as ts from 'typescript';
+import { ModuleIsolationConfig } from './types';
+
+export const CONFIG_FILE_NAMES = [
+  'module-isolation.config.json',
+  'module-isolation.config.js',
+  'module-isolation.config.ts',
+  '.moduleisolationrc',
+  '.moduleisolationrc.json'
+];
+
+export const PACKAGE_JSON_KEY = 'moduleIsolation';
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+export const configSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'ts-module-isolation configuration',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    level: { enum: ['prefix', 'module'] },
+    roots: stringArray,
+    exclude: stringArray,
+    extensions: { type: 'array', items: { type: 'string', pattern: '^\\.' } },
+    typeImports: { enum: ['include', 'ignore', 'warn'] },
+    prefix: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        maxDepth: { type: 'integer', minimum: 1 },
+        layers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['pattern', 'layer'],
+            properties: {
+              pattern: { type: 'string' },
+              layer: { type: 'string' }
+            }
+          }
+        },
+        groupByPackage: { type: 'boolean' }
+      }
+    },
+    allowedEdges: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['from', 'to'],
+        properties: {
+          from: { type: 'string' },
+          to: { type: 'string' }
+        }
+      }
+    },
+    rules: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['from', 'to', 'policy'],
+        properties: {
+          name: { type: 'string' },
+          from: { type: 'string' },
+          to: { type: 'string' },
+          policy: { enum: ['allow', 'deny'] },
+          importTypes: {
+            type: 'array',
+            items: { enum: ['import', 'require', 'dynamic', 'type-only', 're-export'] }
+          },
+          message: { type: 'string' }
+        }
+      }
+    },
+    maxCycles: { type: 'integer', minimum: 0 },
+    failOnUnresolved: { type: 'boolean' },
+    baseline: { type: 'string' },
+    entries: { type: 'array', items: { type: 'string' } },
+    additionalEntries: { type: 'array', items: { type: 'string' } },
+    cache: { type: 'boolean' },
+    cacheLocation: { type: 'string' },
+    concurrency: { type: 'integer', minimum: 1 },
+    output: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        format: { enum: ['text', 'json', 'dot', 'sarif', 'github', 'gitlab', 'html', 'mermaid'] },
+        file: { type: 'string' },
+        json: { type: 'boolean' },
+        dot: { type: 'boolean' },
+        verbose: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface LoadedConfig {
+  path: string;
+  config: ModuleIsolationConfig;
+}
+
+const validate = new Ajv({ allErrors: true }).compile(configSchema);
+
+export function findConfigFile(startDir: string): string | null {
+  let current = resolve(startDir);
+
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(current, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+
+    const packageJson = join(current, 'package.json');
+    if (existsSync(packageJson) && PACKAGE_JSON_KEY in readJson(packageJson)) {
+      return packageJson;
+    }
+
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+export function loadConfig(explicitPath?: string, cwd: string = process.cwd()): LoadedConfig | null {
+  const configPath = explicitPath ? resolve(cwd, explicitPath) : findConfigFile(cwd);
+  if (!configPath) {
+    return null;
+  }
+  if (!existsSync(configPath)) {
+    throw new ConfigError(`Config file not found: ${configPath}`);
+  }
+
+  const raw = readConfigFile(configPath);
+  if (!validate(raw)) {
+    const problems = (validate.errors || []).map(error => {
+      const location = error.instancePath ? error.instancePath.slice(1).replace(/\//g, '.') : '(root)';
+      let detail = error.message;
+      if (error.keyword === 'additionalProperties') {
+        detail = `has unknown property "${error.params.additionalProperty}"`;
+      } else if (error.keyword === 'enum') {
+        detail = `must be one of: ${error.params.allowedValues.join(', ')}`;
+      }
+      return `  ${location} ${detail}`;
+    });
+    throw new ConfigError(`Invalid config in ${configPath}:\n${problems.join('\n')}`);
+  }
+
+  return { path: configPath, config: resolveConfigPaths(raw as ModuleIsolationConfig, dirname(configPath)) };
+}
+
+function readConfigFile(configPath: string): unknown {
+  if (basename(configPath) === 'package.json') {
+    return readJson(configPath)[PACKAGE_JSON_KEY];
+  }
+
+  switch (extname(configPath)) {
+    case '.js':
+    case '.cjs':
+      return unwrapDefault(evaluateModule(readFileSync(configPath, 'utf-8'), configPath));
+    case '.ts':
+    case '.cts':
+    case '.mts': {
+      const { outputText } = ts.transpileModule(readFileSync(configPath, 'utf-8'), {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true },
+        fileName: configPath
+      });
+      return unwrapDefault(evaluateModule(outputText, configPath));
+    }
+    default:
+      return readJson(configPath);
+  }
+}
+
+function readJson(filePath: string): Record<string, unknown> {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigError(`Failed to parse ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function evaluateModule(code: string, filePath: string): unknown {
+  const module = { exports: {} as unknown };
+  try {
+    new Function('module', 'exports', 'require', '__filename', '__dirname', code)(
+      module, module.exports, createRequire(filePath), filePath, dirname(filePath)
+    );
+  } catch (error) {
+    throw new ConfigError(`Failed to load ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return module.exports;
+}
+
+function unwrapDefault(value: unknown): unknown {
+  if (value && typeof value === 'object' && 'default' in value) {
+    return (value as { default: unknown }).default;
+  }
+  return value;
+}
+
+// Roots, the baseline, entry globs, the cache location and the output file are written relative to the config file, not to the working directory
+function resolveConfigPaths(config: ModuleIsolationConfig, configDir: string): ModuleIsolationConfig {
+  const resolved = { ...config };
+  if (config.roots) {
+    resolved.roots = config.roots.map(root => resolve(configDir, root));
+  }
+  if (config.baseline) {
+    resolved.baseline = resolve(configDir, config.baseline);
+  }
+  if (config.entries) {
+    resolved.entries = config.entries.map(pattern => resolve(configDir, pattern));
+  }
+  if (config.additionalEntries) {
+    resolved.additionalEntries = config.additionalEntries.map(pattern => resolve(configDir, pattern));
+  }
+  if (config.cacheLocation) {
+    resolved.cacheLocation = resolve(configDir, config.cacheLocation);
+  }
+  if (config.output?.file) {
+    resolved.output = { ...config.output, file: resolve(configDir, config.output.file) };
+  }
+  delete (resolved as { $schema?: string }).$schema;
+  return resolved;
+}
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { extname } from 'path';
+
+export interface EmbeddedScript {
+  // The file's content with everything outside its scripts blanked out, so positions stay those of the file
+  code: string;
+  jsx: boolean;
+}
+
+type Range = [start: number, end: number];
+
+// Replaces everything outside the ranges with spaces, keeping line breaks so lines and columns still match
+function keepRanges(content: string, ranges: Range[]): string {
+  let code = '';
+  let position = 0;
+  for (const [start, end] of ranges) {
+    code += content.slice(position, start).replace(/[^\r\n]/g, ' ') + content.slice(start, end);
+    position = end;
+  }
+  return code + content.slice(position).replace(/[^\r\n]/g, ' ');
+}
+
+// Contents of every <script> element (Vue's <script setup>, Svelte's <script context="module"> ...)
+function scriptElements(content: string): { ranges: Range[]; jsx: boolean } {
+  // Commented-out markup is blanked first so its tags are not picked up
+  const markup = content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\r\n]/g, ' '));
+  const ranges: Range[] = [];
+  let jsx = false;
+  const element = /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = element.exec(markup)) !== null) {
+    const start = match.index + match[0].indexOf('>') + 1;
+    ranges.push([start, start + match[2].length]);
+    jsx = jsx || /\blang\s*=\s*["']?[jt]sx\b/.test(match[1]);
+  }
+  return { ranges, jsx };
+}
+
+// The `---` fenced frontmatter at the top of an Astro component
+function astroFrontmatter(content: string): Range | null {
+  const match = /^(\uFEFF?\s*---[^\S\r\n]*\r?\n)([\s\S]*?)^---[^\S\r\n]*$/m.exec(content);
+  if (!match || match.index !== 0) {
+    return null;
+  }
+  return [match[1].length, match[1].length + match[2].length];
+}
+
+// MDX's import/export blocks: top-level paragraphs starting with `import` or `export`, outside code fences
+function mdxStatements(content: string): Range[] {
+  const ranges: Range[] = [];
+  let fence: string | null = null;
+  let block: Range | null = null;
+  let position = 0;
+
+  for (const line of content.split('\n')) {
+    const end = position + line.length;
+    const fenceMatch = /^\s*(`{3,}|~{3,})/.exec(line);
+    if (fence) {
+      if (fenceMatch && fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+    } else if (block && line.trim() !== '') {
+      block[1] = end;
+    } else if (block) {
+      block = null;
+    } else if (fenceMatch) {
+      fence = fenceMatch[1];
+    } else if (/^(import|export)\b/.test(line)) {
+      block = [position, end];
+      ranges.push(block);
+    }
+    position = end + 1;
+  }
+  return ranges;
+}
+
+/**
+ * The scripts of a single-file component (Vue, Svelte, Astro) or MDX document, as one TypeScript source
+ * whose line and column numbers are those of the original file. Null for plain script files.
+ */
+export function extractEmbeddedScript(content: string, filePath: string): EmbeddedScript | null {
+  switch (extname(filePath)) {
+    case '.vue':
+    case '.svelte': {
+      const { ranges, jsx } = scriptElements(content);
+      return { code: keepRanges(content, ranges), jsx };
+    }
+    case '.astro': {
+      // Astro also bundles the imports of <script> tags in its template
+      const frontmatter = astroFrontmatter(content);
+      const start = frontmatter ? frontmatter[1] : 0;
+      const { ranges } = scriptElements(content.slice(start));
+      const scripts = ranges.map(([from, to]): Range => [from + start, to + start]);
+      return { code: keepRanges(content, frontmatter ? [frontmatter, ...scripts] : scripts), jsx: false };
+    }
+    case '.mdx':
+      return { code: keepRanges(content, mdxStatements(content)), jsx: true };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,192 @@
+import { GraphAnalyzer } from './graph';
+import { DependencyGraph, FeedbackArc, FixSuggestion, ModuleDependency, ModuleInfo } from './types';
+
+const MAX_SUGGESTIONS = 3;
+// Every option re-analyses the whole graph, so only the arcs with the fewest imports get suggestions
+export const MAX_SUGGESTED_ARCS = 20;
+// Moving more modules than this at once is no longer a concrete suggestion
+const MAX_MODULES = 5;
+
+interface Simulation {
+  modules: ModuleInfo[];
+  prefixes: Map<string, string>;
+  // Where each import of the feedback arc ends up after the change
+  rewrite: (dep: ModuleDependency) => ModuleDependency;
+  // Prefixes that gain or lose modules or imports; only cycles through them can change
+  affected: string[];
+}
+
+function importKey(dep: ModuleDependency): string {
+  return `${dep.from}\0${dep.to}\0${dep.line}\0${dep.column}`;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values)).sort();
+}
+
+// Imports of an index module name its directory, which moves along with it
+function withDirectoryNames(names: string[]): string[] {
+  return names.flatMap(name => name.endsWith('/index') ? [name, name.slice(0, -'/index'.length)] : [name]);
+}
+
+// A new prefix next to both ends of the arc, e.g. `app/shared` for `app/ui` and `app/core`
+function sharedPrefix(from: string, to: string): string {
+  const a = from.split('/');
+  const b = to.split('/');
+  let common = 0;
+  while (common < a.length && common < b.length && a[common] === b[common]) {
+    common++;
+  }
+  return [...a.slice(0, common), 'shared'].join('/');
+}
+
+/**
+ * Finds concrete ways to remove a feedback arc: moving the imported modules to the importing prefix,
+ * moving the importing modules to the imported prefix, or extracting the imported symbols into a new
+ * shared prefix. Each option is applied to a copy of the graph and only kept when cycle detection
+ * confirms that the arc's imports leave their cycle without pulling other imports into one.
+ */
+export class FixSuggester {
+  private readonly modules: ModuleInfo[];
+  private readonly names: Set<string>;
+  private readonly knownViolations: Set<string>;
+  // Violations by the component they lie in, so a simulation only re-checks the components it touches
+  private readonly componentViolations = new Map<Set<string>, string[]>();
+  private readonly componentOf = new Map<string, Set<string>>();
+
+  constructor(private readonly analyzer: GraphAnalyzer, private readonly graph: DependencyGraph, violations: ModuleDependency[]) {
+    this.modules = Array.from(graph.modules.values());
+    this.names = new Set(this.modules.map(module => module.name));
+    this.knownViolations = new Set(violations.map(importKey));
+    for (const component of analyzer.findCyclicComponents(graph)) {
+      component.forEach(prefix => this.componentOf.set(prefix, component));
+      this.componentViolations.set(component, []);
+    }
+    for (const dep of violations) {
+      const component = this.componentOf.get(graph.modulePrefixes.get(dep.from)!);
+      component && this.componentViolations.get(component)!.push(importKey(dep));
+    }
+  }
+
+  suggest(arc: FeedbackArc): FixSuggestion[] {
+    const sources = unique(arc.violations.map(dep => dep.from));
+    const targetNames = arc.violations.map(dep => this.moduleNamed(dep.to));
+    const targets = unique(targetNames.filter((name): name is string => name !== null));
+    // Imports that name no module, like those of a directory without an index, leave nothing to move
+    const movableTargets = targets.length <= MAX_MODULES && targetNames.every(name => name !== null);
+    const suggestions: FixSuggestion[] = [];
+
+    if (movableTargets) {
+      suggestions.push(...this.check(arc, 'move', targets, arc.from, this.move(targets, arc.from)));
+    }
+    if (sources.length <= MAX_MODULES) {
+      suggestions.push(...this.check(arc, 'move', sources, arc.to, this.move(sources, arc.to)));
+    }
+    if (movableTargets && arc.violations.every(dep => dep.symbols && dep.symbols.length > 0)) {
+      const target = sharedPrefix(arc.from, arc.to);
+      const symbols = unique(arc.violations.flatMap(dep => dep.symbols!));
+      suggestions.push(...this.check(arc, 'extract', targets, target, this.extract(arc, targets, target), symbols));
+    }
+
+    return suggestions
+      .sort((a, b) => a.importsChanged - b.importsChanged || a.remainingViolations - b.remainingViolations)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  // The module an import names: itself, or the index module of an imported directory
+  private moduleNamed(name: string): string | null {
+    return this.names.has(name) ? name : this.names.has(`${name}/index`) ? `${name}/index` : null;
+  }
+
+  private move(moved: string[], target: string): Simulation {
+    return {
+      modules: this.modules,
+      prefixes: new Map(withDirectoryNames(moved).map(name => [name, target])),
+      rewrite: dep => dep,
+      affected: [target, ...moved.map(name => this.graph.modulePrefixes.get(name)!)]
+    };
+  }
+
+  // The extracted symbols go to one new module per target; the target keeps using them through an import
+  private extract(arc: FeedbackArc, targets: string[], target: string): Simulation {
+    const extracted = new Map(targets.map(name => [name, `${target}/${name.replace(/\/index$/, '').split('/').pop()}`]));
+    const arcImports = new Set(arc.violations.map(importKey));
+    const rewrite = (dep: ModuleDependency): ModuleDependency => ({ ...dep, to: extracted.get(this.moduleNamed(dep.to)!)! });
+
+    const modules = this.modules.map(module => {
+      const dependencies = module.dependencies.map(dep => arcImports.has(importKey(dep)) ? rewrite(dep) : dep);
+      const newModule = extracted.get(module.name);
+      if (newModule) {
+        dependencies.push({ from: module.name, to: newModule, importType: 'import', line: 0, column: 0 });
+      }
+      return { ...module, dependencies };
+    });
+    // Which of its imports the extracted code needs is unknown, so it is assumed to need all of them
+    for (const [name, newModule] of extracted) {
+      const dependencies = this.graph.modules.get(name)!.dependencies
+        .map(dep => ({ ...dep, from: newModule }));
+      modules.push({ path: newModule, name: newModule, prefix: target, dependencies });
+    }
+
+    return {
+      modules,
+      prefixes: new Map(Array.from(extracted.values()).map(name => [name, target])),
+      rewrite,
+      affected: [target, arc.from, arc.to]
+    };
+  }
+
+  private check(
+    arc: FeedbackArc,
+    kind: FixSuggestion['kind'],
+    modules: string[],
+    target: string,
+    simulation: Simulation,
+    symbols?: string[]
+  ): FixSuggestion[] {
+    const analyzer = this.analyzer.withPrefixes(simulation.prefixes);
+    const graph = analyzer.buildGraph(simulation.modules);
+
+    // Components without an affected prefix keep their edges, so only those around the change are re-checked
+    const affected = new Set([...simulation.affected, arc.from, arc.to]);
+    const components: Set<string>[] = [];
+    const covered = new Set<string>();
+    for (const prefix of affected) {
+      if (!covered.has(prefix) && graph.prefixDependencies.has(prefix)) {
+        const component = analyzer.componentOf(graph, prefix);
+        component.forEach(node => covered.add(node));
+        components.push(component);
+      }
+    }
+    const changed = analyzer.detectViolations(graph, components).map(importKey);
+    const unchanged = Array.from(this.componentViolations.entries())
+      .filter(([component]) => !Array.from(affected).some(prefix => component.has(prefix)))
+      .flatMap(([, keys]) => keys);
+    const remaining = new Set([...unchanged, ...changed]);
+    const arcImports = new Set(arc.violations.map(dep => importKey(simulation.rewrite(dep))));
+
+    const removedImports = Array.from(arcImports).filter(key => !remaining.has(key)).length;
+    const newViolations = changed.filter(key => !this.knownViolations.has(key) && !arcImports.has(key));
+    if (removedImports < arcImports.size || newViolations.length > 0) {
+      return [];
+    }
+
+    return [{
+      kind,
+      modules,
+      target,
+      ...(symbols ? { symbols } : {}),
+      importsChanged: kind === 'extract' ? arc.violations.length + modules.length : this.importsOf(modules),
+      removedImports,
+      remainingViolations: remaining.size
+    }];
+  }
+
+  // Moving modules rewrites the imports of them as well as their own relative imports
+  private importsOf(names: string[]): number {
+    const moved = new Set(names);
+    const imported = new Set(withDirectoryNames(names));
+    return this.modules.reduce((count, module) => count + module.dependencies
+      .filter(dep => moved.has(module.name) || imported.has(dep.to)).length, 0);
+  }
+}
@@ -0,0 +1,177 @@
+import { GraphAnalyzer } from './graph';
+import { DependencyGraph, FeedbackArc, GraphViewOptions } from './types';
+import { matchesPrefixPattern } from './utils';
+
+export interface ViewNode {
+  id: string;
+  // Number of prefixes folded into this node when everything outside the focus is collapsed
+  collapsed?: number;
+  focused?: boolean;
+}
+
+export interface ViewEdge {
+  from: string;
+  to: string;
+  imports: number;
+  feedback: boolean;
+}
+
+export interface GraphView {
+  nodes: ViewNode[];
+  edges: ViewEdge[];
+  // Strongly connected components among the visible nodes, each drawn as its own highlighted cluster
+  components: string[][];
+}
+
+export interface DirectoryCluster {
+  path: string;
+  nodes: string[];
+  children: DirectoryCluster[];
+}
+
+// Collapsed nodes are named like a glob for the prefixes they stand for
+function collapsedNode(prefix: string): string {
+  return `${prefix.split('/')[0]}/**`;
+}
+
+// Prefixes within `depth` import hops of the focus, following imports in both directions
+function neighbourhood(graph: DependencyGraph, focus: Set<string>, depth: number): Set<string> {
+  const neighbours = new Map<string, Set<string>>();
+  const link = (a: string, b: string): void => {
+    neighbours.set(a, (neighbours.get(a) || new Set()).add(b));
+  };
+  for (const [from, targets] of graph.prefixDependencies) {
+    for (const to of targets) {
+      link(from, to);
+      link(to, from);
+    }
+  }
+
+  const seen = new Set(focus);
+  let frontier = Array.from(focus);
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const node of frontier) {
+      for (const neighbour of neighbours.get(node) || []) {
+        if (!seen.has(neighbour)) {
+          seen.add(neighbour);
+          next.push(neighbour);
+        }
+      }
+    }
+    frontier = next;
+  }
+  return seen;
+}
+
+/**
+ * The part of the prefix graph to draw: everything, or the neighbourhood of the focused prefixes with
+ * the rest either left out or collapsed into one node per top-level directory. Edges carry import counts.
+ */
+export function buildGraphView(graph: DependencyGraph, feedbackArcs: FeedbackArc[], options: GraphViewOptions = {}): GraphView {
+  const allNodes = Array.from(new Set(graph.modulePrefixes.values())).sort();
+  let visible = new Set(allNodes);
+  let focus = new Set<string>();
+
+  if (options.focus) {
+    focus = new Set(allNodes.filter(prefix => matchesPrefixPattern(prefix, options.focus!)));
+    if (focus.size === 0) {
+      throw new Error(`No module prefix matches --focus ${options.focus}`);
+    }
+    visible = neighbourhood(graph, focus, options.depth === undefined ? 1 : options.depth);
+  }
+
+  const nodeOf = (prefix: string): string | null => {
+    if (visible.has(prefix)) {
+      return prefix;
+    }
+    return options.collapse ? collapsedNode(prefix) : null;
+  };
+
+  const importCounts = new Map<string, number>();
+  for (const module of graph.modules.values()) {
+    for (const dep of module.dependencies) {
+      const from = graph.modulePrefixes.get(dep.from)!;
+      const to = graph.modulePrefixes.get(dep.to)!;
+      if (graph.prefixDependencies.get(from)?.has(to)) {
+        importCounts.set(`${from}\0${to}`, (importCounts.get(`${from}\0${to}`) || 0) + 1);
+      }
+    }
+  }
+
+  const feedback = new Set(feedbackArcs.map(arc => `${arc.from}\0${arc.to}`));
+  const edges = new Map<string, ViewEdge>();
+  for (const [from, targets] of graph.prefixDependencies) {
+    for (const to of targets) {
+      const source = nodeOf(from);
+      const target = nodeOf(to);
+      if (!source || !target || source === target) {
+        continue;
+      }
+      const key = `${source}\0${target}`;
+      const edge = edges.get(key) || { from: source, to: target, imports: 0, feedback: false };
+      edge.imports += importCounts.get(`${from}\0${to}`) || 0;
+      edge.feedback = edge.feedback || feedback.has(`${from}\0${to}`);
+      edges.set(key, edge);
+    }
+  }
+
+  const collapsedCounts = new Map<string, number>();
+  for (const prefix of allNodes) {
+    const node = nodeOf(prefix);
+    if (node && node !== prefix) {
+      collapsedCounts.set(node, (collapsedCounts.get(node) || 0) + 1);
+    }
+  }
+
+  const nodes: ViewNode[] = [
+    ...allNodes.filter(prefix => visible.has(prefix)).map(id => focus.has(id) ? { id, focused: true } : { id }),
+    ...Array.from(collapsedCounts.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([id, collapsed]) => ({ id, collapsed }))
+  ];
+
+  const components = new GraphAnalyzer().findCyclicComponents(graph)
+    .map(component => Array.from(component).filter(prefix => visible.has(prefix)))
+    .filter(component => component.length > 1);
+
+  return {
+    nodes,
+    edges: Array.from(edges.values()).sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to)),
+    components
+  };
+}
+
+// Nests nodes by the directories of their prefixes; a directory with a single entry is folded into its parent
+export function clusterByDirectory(nodes: string[]): DirectoryCluster {
+  const root: DirectoryCluster = { path: '', nodes: [], children: [] };
+
+  for (const node of [...nodes].sort()) {
+    const segments = node.split('/').slice(0, -1);
+    let cluster = root;
+    for (let i = 0; i < segments.length; i++) {
+      const path = segments.slice(0, i + 1).join('/');
+      let child = cluster.children.find(candidate => candidate.path === path);
+      if (!child) {
+        child = { path, nodes: [], children: [] };
+        cluster.children.push(child);
+      }
+      cluster = child;
+    }
+    cluster.nodes.push(node);
+  }
+
+  const fold = (cluster: DirectoryCluster): DirectoryCluster => {
+    const children = cluster.children.map(fold);
+    const kept: DirectoryCluster[] = [];
+    const nodesHere = [...cluster.nodes];
+    for (const child of children) {
+      if (child.nodes.length + child.children.length > 1) {
+        kept.push(child);
+      } else {
+        nodesHere.push(...child.nodes);
+        kept.push(...child.children);
+      }
+    }
+    return { path: cluster.path, nodes: nodesHere.sort(), children: kept };
+  };
+  return fold(root);
+}
@@ -1,19 +1,53 @@
-import { ModuleInfo, DependencyGraph, FeedbackArc, ModuleDependency } from './types';
-import { extractModulePrefix } from './utils';
+import { ModuleInfo, DependencyGraph, FeedbackArc, ModuleDependency, GraphAnalyzerOptions, DependencyCycle } from './types';
+import { createPrefixExtractor, matchesPrefixPattern } from './utils';
+
+// Strongly connected components up to this many prefixes get an exact minimum feedback arc set
+const EXACT_FEEDBACK_ARC_SET_LIMIT = 12;
+const DEFAULT_CYCLE_LIMIT = 100;
 
 export class GraphAnalyzer {
+  private readonly prefixOf: (modulePath: string) => string;
+  private readonly prefixes = new Map<string, string>();
+
+  constructor(private readonly options: GraphAnalyzerOptions = {}) {
+    // Prefixes are looked up for every import several times over, and simulations rebuild the graph often
+    const prefixOf = options.prefixOf || createPrefixExtractor(options.prefix);
+    this.prefixOf = (name: string): string => {
+      let prefix = this.prefixes.get(name);
+      if (prefix === undefined) {
+        prefix = prefixOf(name);
+        this.prefixes.set(name, prefix);
+      }
+      return prefix;
+    };
+  }
+
+  // For long-running analyses whose prefix function depends on the set of modules, which just changed
+  forgetPrefixes(): void {
+    this.prefixes.clear();
+  }
+
+  // The same analysis with some modules assigned to other prefixes, for simulating changes to the code
+  withPrefixes(prefixes: Map<string, string>): GraphAnalyzer {
+    return new GraphAnalyzer({ ...this.options, prefixOf: name => prefixes.get(name) ?? this.prefixOf(name) });
+  }
+
   buildGraph(modules: ModuleInfo[]): DependencyGraph {
     const moduleMap = new Map<string, ModuleInfo>();
     const prefixDependencies = new Map<string, Set<string>>();
+    const modulePrefixes = new Map<string, string>();
     
     for (const module of modules) {
-      moduleMap.set(module.name, module);
+      const prefix = this.prefixOf(module.name);
+      moduleMap.set(module.name, { ...module, prefix });
+      modulePrefixes.set(module.name, prefix);
     }
     
     for (const module of modules) {
-      for (const dep of module.dependencies) {
-        const fromPrefix = extractModulePrefix(dep.from);
-        const toPrefix = extractModulePrefix(dep.to);
+      for (const dep of this.edgeDependencies(module)) {
+        const fromPrefix = this.prefixOf(dep.from);
+        const toPrefix = this.prefixOf(dep.to);
+        modulePrefixes.set(dep.to, toPrefix);
         
         if (fromPrefix !== toPrefix) {
           if (!prefixDependencies.has(fromPrefix)) {
@@ -26,100 +60,381 @@ export class GraphAnalyzer {
     
     return {
       modules: moduleMap,
-      prefixDependencies
+      prefixDependencies,
+      modulePrefixes
     };
   }
 
-  findFeedbackArcs(graph: DependencyGraph): FeedbackArc[] {
+  private edgeDependencies(module: ModuleInfo): ModuleDependency[] {
+    const allowedEdges = this.options.allowedEdges || [];
+    if (!this.options.ignoreTypeImports && allowedEdges.length === 0) {
+      return module.dependencies;
+    }
+    
+    return module.dependencies.filter(dep => {
+      if (this.options.ignoreTypeImports && dep.importType === 'type-only') {
+        return false;
+      }
+      const fromPrefix = this.prefixOf(dep.from);
+      const toPrefix = this.prefixOf(dep.to);
+      return !allowedEdges.some(edge => matchesPrefixPattern(fromPrefix, edge.from) && matchesPrefixPattern(toPrefix, edge.to));
+    });
+  }
+
+  findFeedbackArcs(graph: DependencyGraph, components: Set<string>[] = this.findCyclicComponents(graph)): FeedbackArc[] {
     const feedbackArcs: FeedbackArc[] = [];
-    const visited = new Set<string>();
-    const recursionStack = new Set<string>();
-    const prefixes = Array.from(graph.prefixDependencies.keys());
+    const edgeImports = this.collectEdgeImports(graph);
+    const weight = (from: string, to: string): number => edgeImports.get(from)?.get(to)?.length || 0;
     
-    for (const prefix of prefixes) {
-      if (!visited.has(prefix)) {
-        this.dfsForCycles(prefix, graph, visited, recursionStack, feedbackArcs);
+    for (const component of components) {
+      // Sorting makes the chosen cut independent of Map insertion order
+      const nodes = Array.from(component).sort();
+      const order = nodes.length <= EXACT_FEEDBACK_ARC_SET_LIMIT
+        ? this.exactOrdering(nodes, weight)
+        : this.eadesLinSmythOrdering(nodes, component, graph, weight);
+      const position = new Map(order.map((node, index) => [node, index]));
+      
+      // Every edge pointing backwards in the ordering is a feedback arc
+      for (const from of nodes) {
+        for (const to of Array.from(graph.prefixDependencies.get(from) || []).sort()) {
+          if (component.has(to) && position.get(to)! < position.get(from)!) {
+            feedbackArcs.push({ from, to, violations: edgeImports.get(from)?.get(to) || [] });
+          }
+        }
       }
     }
     
-    return feedbackArcs;
+    return feedbackArcs.sort((a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
   }
 
-  private dfsForCycles(
-    current: string,
+  // Finds the vertex ordering with the fewest backward imports by dynamic programming over vertex subsets.
+  // cost[S] is the cheapest way to place the vertices of S first; appending v to S turns every edge
+  // from v into S into a backward edge.
+  private exactOrdering(nodes: string[], weight: (from: string, to: string) => number): string[] {
+    const n = nodes.length;
+    const weights = nodes.map(from => nodes.map(to => weight(from, to)));
+    const cost = new Array<number>(1 << n).fill(Infinity);
+    const last = new Array<number>(1 << n).fill(-1);
+    cost[0] = 0;
+    
+    for (let set = 0; set < (1 << n); set++) {
+      if (cost[set] === Infinity) {
+        continue;
+      }
+      for (let v = 0; v < n; v++) {
+        if (set & (1 << v)) {
+          continue;
+        }
+        let backward = 0;
+        for (let u = 0; u < n; u++) {
+          if (set & (1 << u)) {
+            backward += weights[v][u];
+          }
+        }
+        const next = set | (1 << v);
+        if (cost[set] + backward < cost[next]) {
+          cost[next] = cost[set] + backward;
+          last[next] = v;
+        }
+      }
+    }
+    
+    const order: string[] = [];
+    for (let set = (1 << n) - 1; set !== 0; set &= ~(1 << last[set])) {
+      order.unshift(nodes[last[set]]);
+    }
+    return order;
+  }
+
+  // Weighted Eades–Lin–Smyth heuristic: peel off sinks to the back and sources to the front, otherwise
+  // move the vertex with the largest surplus of outgoing over incoming imports to the front.
+  private eadesLinSmythOrdering(
+    nodes: string[],
+    component: Set<string>,
     graph: DependencyGraph,
-    visited: Set<string>,
-    recursionStack: Set<string>,
-    feedbackArcs: FeedbackArc[]
-  ): void {
-    visited.add(current);
-    recursionStack.add(current);
+    weight: (from: string, to: string) => number
+  ): string[] {
+    const successors = new Map<string, string[]>();
+    const predecessors = new Map<string, string[]>();
+    const outWeight = new Map<string, number>();
+    const inWeight = new Map<string, number>();
     
-    const dependencies = graph.prefixDependencies.get(current) || new Set();
+    for (const node of nodes) {
+      successors.set(node, []);
+      predecessors.set(node, []);
+      outWeight.set(node, 0);
+      inWeight.set(node, 0);
+    }
+    for (const from of nodes) {
+      for (const to of graph.prefixDependencies.get(from) || []) {
+        if (component.has(to)) {
+          successors.get(from)!.push(to);
+          predecessors.get(to)!.push(from);
+          outWeight.set(from, outWeight.get(from)! + weight(from, to));
+          inWeight.set(to, inWeight.get(to)! + weight(from, to));
+        }
+      }
+    }
     
-    for (const neighbor of dependencies) {
-      if (!visited.has(neighbor)) {
-        this.dfsForCycles(neighbor, graph, visited, recursionStack, feedbackArcs);
-      } else if (recursionStack.has(neighbor)) {
-        const violations = this.findViolations(current, neighbor, graph);
-        feedbackArcs.push({
-          from: current,
-          to: neighbor,
-          violations
-        });
+    const remaining = new Set(nodes);
+    const remove = (node: string): void => {
+      remaining.delete(node);
+      for (const to of successors.get(node)!) {
+        inWeight.set(to, inWeight.get(to)! - weight(node, to));
+      }
+      for (const from of predecessors.get(node)!) {
+        outWeight.set(from, outWeight.get(from)! - weight(from, node));
+      }
+    };
+    
+    const front: string[] = [];
+    const back: string[] = [];
+    
+    while (remaining.size > 0) {
+      let peeled = true;
+      while (peeled) {
+        peeled = false;
+        for (const node of nodes) {
+          if (remaining.has(node) && outWeight.get(node) === 0) {
+            back.unshift(node);
+            remove(node);
+            peeled = true;
+          }
+        }
+        for (const node of nodes) {
+          if (remaining.has(node) && inWeight.get(node) === 0) {
+            front.push(node);
+            remove(node);
+            peeled = true;
+          }
+        }
+      }
+      
+      let best: string | null = null;
+      for (const node of nodes) {
+        if (remaining.has(node) &&
+            (best === null || outWeight.get(node)! - inWeight.get(node)! > outWeight.get(best)! - inWeight.get(best)!)) {
+          best = node;
+        }
+      }
+      if (best !== null) {
+        front.push(best);
+        remove(best);
       }
     }
     
-    recursionStack.delete(current);
+    return [...front, ...back];
   }
 
-  private findViolations(fromPrefix: string, toPrefix: string, graph: DependencyGraph): ModuleDependency[] {
-    const violations: ModuleDependency[] = [];
+  private collectEdgeImports(graph: DependencyGraph): Map<string, Map<string, ModuleDependency[]>> {
+    const edgeImports = new Map<string, Map<string, ModuleDependency[]>>();
     
     for (const [, module] of graph.modules) {
-      if (extractModulePrefix(module.name) === fromPrefix) {
-        for (const dep of module.dependencies) {
-          if (extractModulePrefix(dep.to) === toPrefix) {
-            violations.push(dep);
+      const fromPrefix = this.prefixOf(module.name);
+      for (const dep of this.edgeDependencies(module)) {
+        const toPrefix = this.prefixOf(dep.to);
+        if (fromPrefix === toPrefix) {
+          continue;
+        }
+        if (!edgeImports.has(fromPrefix)) {
+          edgeImports.set(fromPrefix, new Map());
+        }
+        const byTarget = edgeImports.get(fromPrefix)!;
+        if (!byTarget.has(toPrefix)) {
+          byTarget.set(toPrefix, []);
+        }
+        byTarget.get(toPrefix)!.push(dep);
+      }
+    }
+    
+    return edgeImports;
+  }
+
+  // Lists the shortest cycle through each edge of every strongly connected component, so a large
+  // component is explained as a handful of concrete loops instead of one flat list of imports.
+  findCycles(
+    graph: DependencyGraph,
+    limit: number = DEFAULT_CYCLE_LIMIT,
+    components: Set<string>[] = this.findCyclicComponents(graph)
+  ): DependencyCycle[] {
+    const cycles: DependencyCycle[] = [];
+    const seen = new Set<string>();
+    const edgeImports = this.collectEdgeImports(graph);
+    
+    for (const component of components) {
+      const nodes = Array.from(component).sort();
+      for (const from of nodes) {
+        for (const to of Array.from(graph.prefixDependencies.get(from) || []).sort()) {
+          if (cycles.length >= limit) {
+            return cycles;
+          }
+          if (!component.has(to)) {
+            continue;
+          }
+          
+          const path = this.shortestPath(to, from, component, graph);
+          if (!path) {
+            continue;
           }
+          
+          const prefixes = this.rotateToSmallest([from, ...path.slice(0, -1)]);
+          const key = prefixes.join('\0');
+          if (seen.has(key)) {
+            continue;
+          }
+          seen.add(key);
+          
+          const hops = prefixes.map((hopFrom, index) => {
+            const hopTo = prefixes[(index + 1) % prefixes.length];
+            const imports = edgeImports.get(hopFrom)?.get(hopTo) || [];
+            return { from: hopFrom, to: hopTo, dependency: imports[0], importCount: imports.length };
+          });
+          cycles.push({ prefixes: [...prefixes, prefixes[0]], hops });
+        }
+      }
+    }
+    
+    return cycles;
+  }
+
+  private shortestPath(source: string, target: string, component: Set<string>, graph: DependencyGraph): string[] | null {
+    const previous = new Map<string, string | null>([[source, null]]);
+    const queue = [source];
+    
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (current === target) {
+        const path: string[] = [];
+        for (let node: string | null = current; node !== null; node = previous.get(node)!) {
+          path.unshift(node);
+        }
+        return path;
+      }
+      for (const neighbor of Array.from(graph.prefixDependencies.get(current) || []).sort()) {
+        if (component.has(neighbor) && !previous.has(neighbor)) {
+          previous.set(neighbor, current);
+          queue.push(neighbor);
         }
       }
     }
     
-    return violations;
+    return null;
   }
 
-  detectViolations(graph: DependencyGraph): ModuleDependency[] {
-    const violations: ModuleDependency[] = [];
-    const stronglyConnectedComponents = this.findStronglyConnectedComponents(graph);
+  private rotateToSmallest(cycle: string[]): string[] {
+    const start = cycle.reduce((best, node, index) => node < cycle[best] ? index : best, 0);
+    return [...cycle.slice(start), ...cycle.slice(0, start)];
+  }
+
+  // Imports between prefixes of one strongly connected component; `components` restricts them to those
+  detectViolations(graph: DependencyGraph, components?: Set<string>[]): ModuleDependency[] {
+    const cyclic = (components || this.findStronglyConnectedComponents(graph)).filter(component => component.size > 1);
+    const componentIndex = new Map<string, number>();
+    cyclic.forEach((component, index) => component.forEach(prefix => componentIndex.set(prefix, index)));
+    const violations: ModuleDependency[][] = cyclic.map(() => []);
     
-    for (const component of stronglyConnectedComponents) {
-      if (component.size > 1) {
-        for (const [, module] of graph.modules) {
-          const modulePrefix = extractModulePrefix(module.name);
-          if (component.has(modulePrefix)) {
-            for (const dep of module.dependencies) {
-              const depPrefix = extractModulePrefix(dep.to);
-              if (component.has(depPrefix) && modulePrefix !== depPrefix) {
-                violations.push(dep);
-              }
-            }
+    // Grouped by component, each in module order
+    for (const [, module] of graph.modules) {
+      const modulePrefix = this.prefixOf(module.name);
+      const index = componentIndex.get(modulePrefix);
+      if (index === undefined) {
+        continue;
+      }
+      for (const dep of this.edgeDependencies(module)) {
+        const depPrefix = this.prefixOf(dep.to);
+        if (componentIndex.get(depPrefix) === index && modulePrefix !== depPrefix) {
+          violations[index].push(dep);
+        }
+      }
+    }
+    
+    return violations.flat();
+  }
+
+  // Strongly connected components with more than one prefix, in a stable order. `within` restricts the
+  // search to a set of prefixes, which must be a union of components (used for incremental re-analysis).
+  findCyclicComponents(graph: DependencyGraph, within?: Set<string>): Set<string>[] {
+    return this.findStronglyConnectedComponents(graph, within)
+      .filter(component => component.size > 1)
+      .map(component => new Set(Array.from(component).sort()))
+      .sort((a, b) => a.values().next().value!.localeCompare(b.values().next().value!));
+  }
+
+  // The strongly connected component containing one prefix: everything it reaches that also reaches it
+  componentOf(graph: DependencyGraph, prefix: string): Set<string> {
+    const forward = this.reachable(prefix, graph.prefixDependencies);
+    const backward = this.reachable(prefix, this.transposeGraph(graph));
+    return new Set(Array.from(forward).filter(node => backward.has(node)));
+  }
+
+  private reachable(start: string, edges: Map<string, Set<string>>): Set<string> {
+    const seen = new Set([start]);
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      for (const neighbor of edges.get(queue[head]) || []) {
+        if (!seen.has(neighbor)) {
+          seen.add(neighbor);
+          queue.push(neighbor);
+        }
+      }
+    }
+    return seen;
+  }
+
+  // Applies changed and removed modules to a graph in place and returns the prefixes whose outgoing
+  // edges were recomputed; only components containing those prefixes can have changed.
+  updateGraph(graph: DependencyGraph, updated: ModuleInfo[], removed: string[]): Set<string> {
+    const affected = new Set<string>();
+    
+    for (const name of removed) {
+      const module = graph.modules.get(name);
+      if (module) {
+        affected.add(module.prefix);
+        graph.modules.delete(name);
+      }
+    }
+    
+    for (const module of updated) {
+      const previous = graph.modules.get(module.name);
+      if (previous) {
+        affected.add(previous.prefix);
+      }
+      const prefix = this.prefixOf(module.name);
+      affected.add(prefix);
+      graph.modules.set(module.name, { ...module, prefix });
+      graph.modulePrefixes.set(module.name, prefix);
+    }
+    
+    for (const prefix of affected) {
+      graph.prefixDependencies.delete(prefix);
+    }
+    for (const [, module] of graph.modules) {
+      if (!affected.has(module.prefix)) {
+        continue;
+      }
+      for (const dep of this.edgeDependencies(module)) {
+        const toPrefix = this.prefixOf(dep.to);
+        graph.modulePrefixes.set(dep.to, toPrefix);
+        if (toPrefix !== module.prefix) {
+          if (!graph.prefixDependencies.has(module.prefix)) {
+            graph.prefixDependencies.set(module.prefix, new Set());
           }
+          graph.prefixDependencies.get(module.prefix)!.add(toPrefix);
         }
       }
     }
     
-    return violations;
+    return affected;
   }
 
-  private findStronglyConnectedComponents(graph: DependencyGraph): Set<string>[] {
+  private findStronglyConnectedComponents(graph: DependencyGraph, within?: Set<string>): Set<string>[] {
     const visited = new Set<string>();
     const stack: string[] = [];
-    const prefixes = Array.from(graph.prefixDependencies.keys());
+    const prefixes = within ? Array.from(within) : Array.from(graph.prefixDependencies.keys());
     
     for (const prefix of prefixes) {
       if (!visited.has(prefix)) {
-        this.fillOrder(prefix, graph, visited, stack);
+        this.fillOrder(prefix, graph, visited, stack, within);
       }
     }
     
@@ -131,7 +446,7 @@ export class GraphAnalyzer {
       const vertex = stack.pop()!;
       if (!visited.has(vertex)) {
         const component = new Set<string>();
-        this.dfsComponent(vertex, transposedGraph, visited, component);
+        this.dfsComponent(vertex, transposedGraph, visited, component, within);
         components.push(component);
       }
     }
@@ -139,13 +454,13 @@ export class GraphAnalyzer {
     return components;
   }
 
-  private fillOrder(vertex: string, graph: DependencyGraph, visited: Set<string>, stack: string[]): void {
+  private fillOrder(vertex: string, graph: DependencyGraph, visited: Set<string>, stack: string[], within?: Set<string>): void {
     visited.add(vertex);
     const dependencies = graph.prefixDependencies.get(vertex) || new Set();
     
     for (const neighbor of dependencies) {
-      if (!visited.has(neighbor)) {
-        this.fillOrder(neighbor, graph, visited, stack);
+      if (!visited.has(neighbor) && (!within || within.has(neighbor))) {
+        this.fillOrder(neighbor, graph, visited, stack, within);
       }
     }
     
@@ -171,15 +486,16 @@ export class GraphAnalyzer {
     vertex: string,
     transposed: Map<string, Set<string>>,
     visited: Set<string>,
-    component: Set<string>
+    component: Set<string>,
+    within?: Set<string>
   ): void {
     visited.add(vertex);
     component.add(vertex);
     
     const dependencies = transposed.get(vertex) || new Set();
     for (const neighbor of dependencies) {
-      if (!visited.has(neighbor)) {
-        this.dfsComponent(neighbor, transposed, visited, component);
+      if (!visited.has(neighbor) && (!within || within.has(neighbor))) {
+        this.dfsComponent(neighbor, transposed, visited, component, within);
       }
     }
   }
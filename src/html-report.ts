@@ -0,0 +1,441 @@
+import { relative } from 'path';
+import { GraphAnalyzer } from './graph';
+import { AnalysisResult, DependencyGraph, ModuleDependency, Reporter } from './types';
+
+const NODE_HEIGHT = 32;
+const COLUMN_GAP = 40;
+const ROW_GAP = 110;
+const BARYCENTER_SWEEPS = 4;
+
+// Distinct hues for strongly connected components; prefixes outside any cycle stay grey
+const COMPONENT_COLOURS = ['#e6550d', '#3182bd', '#31a354', '#756bb1', '#d6616b', '#e7ba52', '#17becf', '#8c564b'];
+
+interface HtmlNode {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  component: number | null;
+  fanIn: number;
+  fanOut: number;
+  importsIn: number;
+  importsOut: number;
+}
+
+interface HtmlImport {
+  file: string;
+  line: number;
+  column: number;
+  from: string;
+  to: string;
+  importType: string;
+}
+
+interface HtmlEdge {
+  from: string;
+  to: string;
+  feedback: boolean;
+  imports: HtmlImport[];
+}
+
+function nodeWidth(label: string): number {
+  return Math.max(60, label.length * 7 + 20);
+}
+
+/**
+ * Places prefixes in rows by longest path through the graph of strongly connected components, so edges
+ * mostly point downwards and each cycle shares a row, then orders each row by the barycenter of its neighbours.
+ */
+function layoutNodes(nodes: string[], graph: DependencyGraph, components: Set<string>[]): Map<string, { x: number; y: number }> {
+  const componentOf = new Map<string, number>();
+  components.forEach((component, index) => component.forEach(node => componentOf.set(node, index)));
+  let next = components.length;
+  for (const node of nodes) {
+    if (!componentOf.has(node)) {
+      componentOf.set(node, next++);
+    }
+  }
+
+  // Longest-path ranking of the condensation, visiting components in topological order
+  const successors = new Map<number, Set<number>>();
+  const indegree = new Map<number, number>();
+  for (const node of nodes) {
+    indegree.set(componentOf.get(node)!, 0);
+  }
+  for (const [from, targets] of graph.prefixDependencies) {
+    for (const to of targets) {
+      const a = componentOf.get(from)!;
+      const b = componentOf.get(to)!;
+      if (a !== b && !successors.get(a)?.has(b)) {
+        successors.set(a, (successors.get(a) || new Set()).add(b));
+        indegree.set(b, indegree.get(b)! + 1);
+      }
+    }
+  }
+  const rank = new Map<number, number>();
+  const queue = Array.from(indegree.keys()).filter(component => indegree.get(component) === 0).sort((a, b) => a - b);
+  while (queue.length > 0) {
+    const component = queue.shift()!;
+    const componentRank = rank.get(component) || 0;
+    rank.set(component, componentRank);
+    for (const successor of successors.get(component) || []) {
+      rank.set(successor, Math.max(rank.get(successor) || 0, componentRank + 1));
+      indegree.set(successor, indegree.get(successor)! - 1);
+      if (indegree.get(successor) === 0) {
+        queue.push(successor);
+      }
+    }
+  }
+
+  const rows: string[][] = [];
+  for (const node of [...nodes].sort()) {
+    const row = rank.get(componentOf.get(node)!)!;
+    (rows[row] = rows[row] || []).push(node);
+  }
+
+  const neighbours = new Map<string, string[]>();
+  for (const [from, targets] of graph.prefixDependencies) {
+    for (const to of targets) {
+      neighbours.set(from, [...(neighbours.get(from) || []), to]);
+      neighbours.set(to, [...(neighbours.get(to) || []), from]);
+    }
+  }
+  const order = new Map<string, number>();
+  rows.forEach(row => row.forEach((node, index) => order.set(node, index)));
+  for (let sweep = 0; sweep < BARYCENTER_SWEEPS; sweep++) {
+    for (const row of rows.filter(Boolean)) {
+      const barycenter = (node: string): number => {
+        const positions = (neighbours.get(node) || []).map(neighbour => order.get(neighbour)!);
+        return positions.length > 0 ? positions.reduce((sum, position) => sum + position, 0) / positions.length : order.get(node)!;
+      };
+      const keys = new Map(row.map(node => [node, barycenter(node)]));
+      // Members of one component share its mean barycenter, so they stay next to each other
+      const sums = new Map<number, { total: number; count: number }>();
+      for (const node of row) {
+        const sum = sums.get(componentOf.get(node)!) || { total: 0, count: 0 };
+        sums.set(componentOf.get(node)!, { total: sum.total + keys.get(node)!, count: sum.count + 1 });
+      }
+      const componentKey = (node: string): number => {
+        const { total, count } = sums.get(componentOf.get(node)!)!;
+        return total / count;
+      };
+      row.sort((a, b) => componentKey(a) - componentKey(b) || componentOf.get(a)! - componentOf.get(b)! ||
+        keys.get(a)! - keys.get(b)! || a.localeCompare(b));
+      row.forEach((node, index) => order.set(node, index));
+    }
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  rows.forEach((row, rowIndex) => {
+    let x = 0;
+    for (const node of row || []) {
+      positions.set(node, { x, y: rowIndex * (NODE_HEIGHT + ROW_GAP) });
+      x += nodeWidth(node) + COLUMN_GAP;
+    }
+  });
+  return positions;
+}
+
+export class HtmlReporter implements Reporter {
+  readonly label = 'HTML report';
+
+  render(result: AnalysisResult): string {
+    const graph = result.graph;
+    const nodes = Array.from(new Set(graph.modulePrefixes.values())).sort();
+    const cyclic = new GraphAnalyzer().findCyclicComponents(graph);
+    const positions = layoutNodes(nodes, graph, cyclic);
+    const feedback = new Set(result.feedbackArcs.map(arc => `${arc.from}\0${arc.to}`));
+
+    const fileOf = (dep: ModuleDependency): string => {
+      const module = graph.modules.get(dep.from);
+      return (module ? relative(process.cwd(), module.path) : dep.from).replace(/\\/g, '/');
+    };
+    const edges = new Map<string, HtmlEdge>();
+    for (const [from, targets] of graph.prefixDependencies) {
+      for (const to of Array.from(targets).sort()) {
+        edges.set(`${from}\0${to}`, { from, to, feedback: feedback.has(`${from}\0${to}`), imports: [] });
+      }
+    }
+    for (const module of graph.modules.values()) {
+      for (const dep of module.dependencies) {
+        const edge = edges.get(`${graph.modulePrefixes.get(dep.from)}\0${graph.modulePrefixes.get(dep.to)}`);
+        edge?.imports.push({ file: fileOf(dep), line: dep.line, column: dep.column, from: dep.from, to: dep.to, importType: dep.importType });
+      }
+    }
+
+    const componentIndex = new Map<string, number>();
+    cyclic.forEach((component, index) => component.forEach(node => componentIndex.set(node, index)));
+    const htmlNodes: HtmlNode[] = nodes.map(id => {
+      const outgoing = Array.from(edges.values()).filter(edge => edge.from === id);
+      const incoming = Array.from(edges.values()).filter(edge => edge.to === id);
+      return {
+        id,
+        ...positions.get(id)!,
+        width: nodeWidth(id),
+        component: componentIndex.has(id) ? componentIndex.get(id)! : null,
+        fanIn: incoming.length,
+        fanOut: outgoing.length,
+        importsIn: incoming.reduce((sum, edge) => sum + edge.imports.length, 0),
+        importsOut: outgoing.reduce((sum, edge) => sum + edge.imports.length, 0)
+      };
+    });
+
+    const data = {
+      nodes: htmlNodes,
+      edges: Array.from(edges.values()),
+      colours: COMPONENT_COLOURS,
+      nodeHeight: NODE_HEIGHT,
+      summary: {
+        level: result.level,
+        modules: graph.modules.size,
+        prefixes: nodes.length,
+        cycles: result.cycles.length,
+        feedbackArcs: result.feedbackArcs.length,
+        violations: result.violations.length
+      }
+    };
+
+    // Escaping `<` keeps `</script>` inside module names from ending the data block
+    return HTML_TEMPLATE.replace('/*DATA*/', () => JSON.stringify(data).replace(/</g, '\\u003c'));
+  }
+}
+
+const HTML_TEMPLATE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Module dependency report</title>
+<style>
+  body { margin: 0; font: 14px system-ui, sans-serif; color: #222; display: grid; grid-template-columns: 1fr 380px; height: 100vh; }
+  #graph { position: relative; overflow: hidden; border-right: 1px solid #ddd; }
+  #graph svg { width: 100%; height: 100%; cursor: grab; }
+  #toolbar { position: absolute; top: 8px; left: 8px; display: flex; gap: 6px; }
+  #sidebar { overflow: auto; padding: 12px; }
+  h1 { font-size: 16px; margin: 0 0 8px; }
+  h2 { font-size: 14px; margin: 16px 0 6px; }
+  input[type=search] { width: 100%; box-sizing: border-box; padding: 6px; }
+  table { border-collapse: collapse; width: 100%; font-size: 12px; }
+  th, td { text-align: left; padding: 3px 6px; border-bottom: 1px solid #eee; }
+  th { cursor: pointer; user-select: none; }
+  td.number, th.number { text-align: right; }
+  tr.selected td { background: #fff3cd; }
+  .node rect { fill: #f4f4f4; stroke: #999; rx: 4; }
+  .node text { font-size: 12px; pointer-events: none; }
+  .node.dimmed, .edge.dimmed { opacity: 0.15; }
+  .node.selected rect { stroke: #000; stroke-width: 2; }
+  .edge { fill: none; stroke: #999; stroke-width: 1.2; }
+  .edge.feedback { stroke: #d62728; stroke-width: 2.5; }
+  .edge.selected { stroke: #000; stroke-width: 3; }
+  .edge-hit { fill: none; stroke: transparent; stroke-width: 10; cursor: pointer; }
+  #details ul { padding-left: 18px; margin: 4px 0; font: 12px ui-monospace, monospace; }
+  .muted { color: #777; }
+</style>
+</head>
+<body>
+<div id="graph">
+  <div id="toolbar"><button id="zoom-in">+</button><button id="zoom-out">&minus;</button><button id="fit">Fit</button></div>
+  <svg id="canvas"><defs>
+    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse"><path d="M0,0L10,5L0,10z" fill="#999"/></marker>
+    <marker id="arrow-feedback" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse"><path d="M0,0L10,5L0,10z" fill="#d62728"/></marker>
+  </defs><g id="viewport"></g></svg>
+</div>
+<div id="sidebar">
+  <h1>Module dependency report</h1>
+  <div id="summary" class="muted"></div>
+  <h2>Search</h2>
+  <input type="search" id="search" placeholder="Filter prefixes">
+  <h2>Selection</h2>
+  <div id="details" class="muted">Click an edge to list its imports, or a prefix to highlight its dependencies. Red edges are feedback arcs; coloured prefixes share a cycle.</div>
+  <h2>Fan-in / fan-out</h2>
+  <table id="metrics"><thead><tr>
+    <th data-key="id">Prefix</th><th data-key="fanIn" class="number">Fan-in</th><th data-key="fanOut" class="number">Fan-out</th>
+    <th data-key="importsIn" class="number">Imports in</th><th data-key="importsOut" class="number">Imports out</th>
+  </tr></thead><tbody></tbody></table>
+</div>
+<script type="application/json" id="report-data">/*DATA*/</script>
+<script>
+(function () {
+  var data = JSON.parse(document.getElementById('report-data').textContent);
+  var SVG = 'http://www.w3.org/2000/svg';
+  var svg = document.getElementById('canvas');
+  var viewport = document.getElementById('viewport');
+  var details = document.getElementById('details');
+  var nodesById = {};
+  var nodeElements = {};
+  var edgeElements = [];
+  var view = { x: 0, y: 0, scale: 1 };
+
+  function element(name, attributes, parent) {
+    var el = document.createElementNS(SVG, name);
+    Object.keys(attributes).forEach(function (key) { el.setAttribute(key, attributes[key]); });
+    if (parent) { parent.appendChild(el); }
+    return el;
+  }
+
+  function text(value) {
+    return String(value).replace(/[&<>"]/g, function (c) { return { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]; });
+  }
+
+  var s = data.summary;
+  document.getElementById('summary').textContent = s.modules + ' modules, ' + s.prefixes + (s.level === 'module' ? ' modules in graph, ' : ' prefixes, ') +
+    s.cycles + ' cycles, ' + s.feedbackArcs + ' feedback arcs, ' + s.violations + ' violating imports';
+
+  data.nodes.forEach(function (node) { nodesById[node.id] = node; });
+
+  function anchor(node, towards) {
+    var cx = node.x + node.width / 2, cy = node.y + data.nodeHeight / 2;
+    var dx = towards.x - cx, dy = towards.y - cy;
+    if (dx === 0 && dy === 0) { return { x: cx, y: cy }; }
+    var sx = Math.abs(dx) > 0 ? (node.width / 2) / Math.abs(dx) : Infinity;
+    var sy = Math.abs(dy) > 0 ? (data.nodeHeight / 2) / Math.abs(dy) : Infinity;
+    var t = Math.min(sx, sy);
+    return { x: cx + dx * t, y: cy + dy * t };
+  }
+
+  function centre(node) { return { x: node.x + node.width / 2, y: node.y + data.nodeHeight / 2 }; }
+
+  data.edges.forEach(function (edge) {
+    var from = nodesById[edge.from], to = nodesById[edge.to];
+    var start = anchor(from, centre(to)), end = anchor(to, centre(from));
+    // Bend edges so the two directions of a mutual dependency don't overlap
+    var mx = (start.x + end.x) / 2, my = (start.y + end.y) / 2;
+    var nx = -(end.y - start.y), ny = end.x - start.x, length = Math.sqrt(nx * nx + ny * ny) || 1;
+    var bend = from.y === to.y ? 40 : 18;
+    var d = 'M' + start.x + ',' + start.y + ' Q' + (mx + nx / length * bend) + ',' + (my + ny / length * bend) + ' ' + end.x + ',' + end.y;
+    var path = element('path', { d: d, class: 'edge' + (edge.feedback ? ' feedback' : ''), 'marker-end': edge.feedback ? 'url(#arrow-feedback)' : 'url(#arrow)' }, viewport);
+    var hit = element('path', { d: d, class: 'edge-hit' }, viewport);
+    var title = element('title', {}, hit);
+    title.textContent = edge.from + ' -> ' + edge.to + ' (' + edge.imports.length + ' imports)';
+    hit.addEventListener('click', function (event) { event.stopPropagation(); selectEdge(edge, path); });
+    edgeElements.push({ edge: edge, path: path });
+  });
+
+  data.nodes.forEach(function (node) {
+    var group = element('g', { class: 'node', transform: 'translate(' + node.x + ',' + node.y + ')' }, viewport);
+    var rect = element('rect', { width: node.width, height: data.nodeHeight }, group);
+    if (node.component !== null) {
+      rect.style.fill = data.colours[node.component % data.colours.length];
+      rect.style.fillOpacity = '0.35';
+    }
+    var label = element('text', { x: node.width / 2, y: data.nodeHeight / 2 + 4, 'text-anchor': 'middle' }, group);
+    label.textContent = node.id;
+    group.style.cursor = 'pointer';
+    group.addEventListener('click', function (event) { event.stopPropagation(); selectNode(node); });
+    nodeElements[node.id] = group;
+  });
+
+  function clearSelection() {
+    edgeElements.forEach(function (item) { item.path.classList.remove('selected', 'dimmed'); });
+    Object.keys(nodeElements).forEach(function (id) { nodeElements[id].classList.remove('selected', 'dimmed'); });
+    Array.prototype.forEach.call(document.querySelectorAll('#metrics tr.selected'), function (row) { row.classList.remove('selected'); });
+  }
+
+  function selectEdge(edge, path) {
+    clearSelection();
+    path.classList.add('selected');
+    var html = '<strong>' + text(edge.from) + ' &rarr; ' + text(edge.to) + '</strong>' + (edge.feedback ? ' <span style="color:#d62728">(feedback arc)</span>' : '');
+    html += '<ul>' + edge.imports.map(function (dep) {
+      return '<li>' + text(dep.file) + ':' + dep.line + ' &rarr; ' + text(dep.to) + ' <span class="muted">(' + text(dep.importType) + ')</span></li>';
+    }).join('') + '</ul>';
+    details.innerHTML = html;
+    details.classList.remove('muted');
+  }
+
+  function selectNode(node) {
+    clearSelection();
+    var related = {};
+    related[node.id] = true;
+    edgeElements.forEach(function (item) {
+      var touches = item.edge.from === node.id || item.edge.to === node.id;
+      item.path.classList.toggle('dimmed', !touches);
+      if (touches) { related[item.edge.from] = true; related[item.edge.to] = true; }
+    });
+    Object.keys(nodeElements).forEach(function (id) { nodeElements[id].classList.toggle('dimmed', !related[id]); });
+    nodeElements[node.id].classList.add('selected');
+    var row = document.querySelector('#metrics tr[data-id="' + CSS.escape(node.id) + '"]');
+    if (row) { row.classList.add('selected'); row.scrollIntoView({ block: 'nearest' }); }
+    details.innerHTML = '<strong>' + text(node.id) + '</strong><br>depends on ' + node.fanOut + ' (' + node.importsOut + ' imports), used by ' + node.fanIn + ' (' + node.importsIn + ' imports)' +
+      (node.component !== null ? '<br>part of a cycle' : '');
+    details.classList.remove('muted');
+  }
+
+  svg.addEventListener('click', function () { clearSelection(); });
+
+  // Zooming and panning move the viewport group; the layout itself never changes
+  function applyView() {
+    viewport.setAttribute('transform', 'translate(' + view.x + ',' + view.y + ') scale(' + view.scale + ')');
+  }
+
+  function zoom(factor, cx, cy) {
+    var scale = Math.min(8, Math.max(0.05, view.scale * factor));
+    view.x = cx - (cx - view.x) * scale / view.scale;
+    view.y = cy - (cy - view.y) * scale / view.scale;
+    view.scale = scale;
+    applyView();
+  }
+
+  function fit() {
+    var box = viewport.getBBox(), width = svg.clientWidth, height = svg.clientHeight;
+    if (box.width === 0 || box.height === 0) { return; }
+    view.scale = Math.min(2, Math.min((width - 40) / box.width, (height - 60) / box.height));
+    view.x = (width - box.width * view.scale) / 2 - box.x * view.scale;
+    view.y = 40 + (height - 60 - box.height * view.scale) / 2 - box.y * view.scale;
+    applyView();
+  }
+
+  svg.addEventListener('wheel', function (event) {
+    event.preventDefault();
+    var rect = svg.getBoundingClientRect();
+    zoom(event.deltaY < 0 ? 1.15 : 1 / 1.15, event.clientX - rect.left, event.clientY - rect.top);
+  }, { passive: false });
+
+  var drag = null;
+  svg.addEventListener('mousedown', function (event) { drag = { x: event.clientX - view.x, y: event.clientY - view.y }; svg.style.cursor = 'grabbing'; });
+  window.addEventListener('mousemove', function (event) {
+    if (drag) { view.x = event.clientX - drag.x; view.y = event.clientY - drag.y; applyView(); }
+  });
+  window.addEventListener('mouseup', function () { drag = null; svg.style.cursor = ''; });
+  document.getElementById('zoom-in').addEventListener('click', function () { zoom(1.3, svg.clientWidth / 2, svg.clientHeight / 2); });
+  document.getElementById('zoom-out').addEventListener('click', function () { zoom(1 / 1.3, svg.clientWidth / 2, svg.clientHeight / 2); });
+  document.getElementById('fit').addEventListener('click', fit);
+
+  var tbody = document.querySelector('#metrics tbody');
+  var sortKey = 'fanIn', sortDescending = true;
+
+  function renderTable() {
+    var query = document.getElementById('search').value.trim().toLowerCase();
+    var rows = data.nodes.filter(function (node) { return node.id.toLowerCase().indexOf(query) !== -1; });
+    rows.sort(function (a, b) {
+      var order = a[sortKey] < b[sortKey] ? -1 : a[sortKey] > b[sortKey] ? 1 : 0;
+      return (sortDescending ? -order : order) || (a.id < b.id ? -1 : 1);
+    });
+    tbody.innerHTML = rows.map(function (node) {
+      return '<tr data-id="' + text(node.id) + '"><td>' + text(node.id) + '</td><td class="number">' + node.fanIn + '</td><td class="number">' + node.fanOut +
+        '</td><td class="number">' + node.importsIn + '</td><td class="number">' + node.importsOut + '</td></tr>';
+    }).join('');
+    Object.keys(nodeElements).forEach(function (id) {
+      nodeElements[id].classList.toggle('dimmed', query !== '' && id.toLowerCase().indexOf(query) === -1);
+    });
+  }
+
+  tbody.addEventListener('click', function (event) {
+    var row = event.target.closest('tr');
+    if (row) { selectNode(nodesById[row.getAttribute('data-id')]); }
+  });
+  Array.prototype.forEach.call(document.querySelectorAll('#metrics th'), function (header) {
+    header.addEventListener('click', function () {
+      var key = header.getAttribute('data-key');
+      sortDescending = key === sortKey ? !sortDescending : key !== 'id';
+      sortKey = key;
+      renderTable();
+    });
+  });
+  document.getElementById('search').addEventListener('input', renderTable);
+
+  renderTable();
+  fit();
+})();
+</script>
+</body>
+</html>
+`;
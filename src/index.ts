@@ -1,5 +1,27 @@
+export { analyze, serializeResult, RESULT_SCHEMA_VERSION, ProjectAnalysisOptions, SerializedAnalysis, SerializedRule, SerializedRuleViolation } from './api';
 export { OrderOrder } from './orderorder';
-export { ModuleParser } from './parser';
+export { ModuleParser, DEFAULT_EXTENSIONS, ImportLocation } from './parser';
+export { extractEmbeddedScript, EmbeddedScript } from './embedded';
 export { GraphAnalyzer } from './graph';
-export { extractModulePrefix } from './utils';
+export { FixSuggester, MAX_SUGGESTED_ARCS } from './fixes';
+export { ParseCache, DEFAULT_CACHE_LOCATION } from './cache';
+export { ParserPool, DEFAULT_CONCURRENCY } from './pool';
+export { WorkspaceResolver, Workspace, WorkspacePackage } from './workspace';
+export { RuleEngine } from './rules';
+export { IncrementalAnalysis, CycleDiff, WatchHandle, watchDirectories, formatCycleDiff } from './watch';
+export {
+  TextReporter, JsonReporter, DotReporter, MermaidReporter, SarifReporter, GithubReporter, GitlabReporter, createReporter
+} from './reporters';
+export { HtmlReporter } from './html-report';
+export { GraphView, ViewNode, ViewEdge, buildGraphView } from './graph-view';
+export { createBaseline, updateBaseline, applyBaseline, readBaseline, writeBaseline, BaselineError, BaselineUpdate } from './baseline';
+export { applySince, changedLinesSince, ChangedLines, GitError } from './since';
+export {
+  computeMetrics, formatMetrics, formatMetricsTable, formatMetricsCsv, compareMetrics, formatMetricsComparison, readMetricsSnapshot,
+  METRICS_SCHEMA_VERSION, MetricsSnapshot, PrefixMetrics, EdgeMetrics, MetricsChange, MetricsFormat, MetricsError
+} from './metrics';
+export { findUnused, formatUnused, formatUnusedReport, UnusedReport, UnusedFormat, UnusedError } from './unused';
+export { planMove, applyMove, simulateMove, formatMoveDiff, formatMoveSummary, MovePlan, FileEdit, MoveError } from './move';
+export { loadConfig, findConfigFile, configSchema, ConfigError } from './config';
+export { extractModulePrefix, createPrefixExtractor, matchesPrefixPattern } from './utils';
 export * from './types';
\ No newline at end of file
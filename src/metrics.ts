@@ -0,0 +1,293 @@
+import { readFileSync } from 'fs';
+import { GraphAnalyzer } from './graph';
+import { DependencyGraph } from './types';
+
+// Bumped whenever a field of MetricsSnapshot is removed or changes meaning
+export const METRICS_SCHEMA_VERSION = 1;
+
+export type MetricsFormat = 'table' | 'json' | 'csv';
+
+export interface PrefixMetrics {
+  prefix: string;
+  modules: number;
+  // Afferent coupling: prefixes that depend on this one
+  afferent: number;
+  // Efferent coupling: prefixes this one depends on
+  efferent: number;
+  // Martin's instability Ce / (Ca + Ce): 0 for prefixes nothing can break, 1 for prefixes nothing depends on
+  instability: number;
+  // Longest chain of dependencies below the prefix, with cycles contracted; 0 for prefixes that depend on nothing
+  depth: number;
+  // Number of prefixes in the strongly connected component of this prefix; 1 when it is in no cycle
+  componentSize: number;
+  importsIn: number;
+  importsOut: number;
+}
+
+export interface EdgeMetrics {
+  from: string;
+  to: string;
+  imports: number;
+}
+
+export interface MetricsSnapshot {
+  schemaVersion: typeof METRICS_SCHEMA_VERSION;
+  prefixes: PrefixMetrics[];
+  edges: EdgeMetrics[];
+}
+
+export interface MetricsChange {
+  // Prefix, or `from -> to` for edges
+  subject: string;
+  metric: string;
+  before: number | null;
+  after: number | null;
+  regression: boolean;
+  // Set for changes that are neither better nor worse on their own, like a prefix gaining importers
+  informational?: boolean;
+}
+
+export class MetricsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MetricsError';
+  }
+}
+
+function countImports(graph: DependencyGraph): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const module of graph.modules.values()) {
+    for (const dep of module.dependencies) {
+      const from = graph.modulePrefixes.get(dep.from)!;
+      const to = graph.modulePrefixes.get(dep.to)!;
+      if (graph.prefixDependencies.get(from)?.has(to)) {
+        counts.set(`${from}\0${to}`, (counts.get(`${from}\0${to}`) || 0) + 1);
+      }
+    }
+  }
+  return counts;
+}
+
+// Longest path to a sink over the condensation, so every prefix of a cycle gets the same depth
+function computeDepths(graph: DependencyGraph, prefixes: string[], componentOf: Map<string, Set<string>>): Map<string, number> {
+  const depths = new Map<Set<string>, number>();
+  const depthOf = (component: Set<string>): number => {
+    const known = depths.get(component);
+    if (known !== undefined) {
+      return known;
+    }
+    // Marks the component while its successors are visited; the condensation has no cycles
+    depths.set(component, 0);
+    let depth = 0;
+    for (const prefix of component) {
+      for (const target of graph.prefixDependencies.get(prefix) || []) {
+        const next = componentOf.get(target)!;
+        if (next !== component) {
+          depth = Math.max(depth, depthOf(next) + 1);
+        }
+      }
+    }
+    depths.set(component, depth);
+    return depth;
+  };
+  return new Map(prefixes.map(prefix => [prefix, depthOf(componentOf.get(prefix)!)]));
+}
+
+export function computeMetrics(graph: DependencyGraph): MetricsSnapshot {
+  const prefixes = Array.from(new Set([...graph.modulePrefixes.values(), ...graph.prefixDependencies.keys()])).sort();
+  const importCounts = countImports(graph);
+
+  const componentOf = new Map<string, Set<string>>();
+  for (const component of new GraphAnalyzer().findCyclicComponents(graph)) {
+    for (const prefix of component) {
+      componentOf.set(prefix, component);
+    }
+  }
+  for (const prefix of prefixes) {
+    if (!componentOf.has(prefix)) {
+      componentOf.set(prefix, new Set([prefix]));
+    }
+  }
+  const depths = computeDepths(graph, prefixes, componentOf);
+
+  const edges: EdgeMetrics[] = [];
+  const dependents = new Map<string, Set<string>>();
+  for (const from of prefixes) {
+    for (const to of Array.from(graph.prefixDependencies.get(from) || []).sort()) {
+      edges.push({ from, to, imports: importCounts.get(`${from}\0${to}`) || 0 });
+      dependents.set(to, (dependents.get(to) || new Set()).add(from));
+    }
+  }
+
+  const moduleCounts = new Map<string, number>();
+  for (const name of graph.modules.keys()) {
+    const prefix = graph.modulePrefixes.get(name)!;
+    moduleCounts.set(prefix, (moduleCounts.get(prefix) || 0) + 1);
+  }
+
+  return {
+    schemaVersion: METRICS_SCHEMA_VERSION,
+    prefixes: prefixes.map(prefix => {
+      const afferent = dependents.get(prefix)?.size || 0;
+      const efferent = graph.prefixDependencies.get(prefix)?.size || 0;
+      return {
+        prefix,
+        modules: moduleCounts.get(prefix) || 0,
+        afferent,
+        efferent,
+        instability: afferent + efferent === 0 ? 0 : Number((efferent / (afferent + efferent)).toFixed(3)),
+        depth: depths.get(prefix)!,
+        componentSize: componentOf.get(prefix)!.size,
+        importsIn: edges.filter(edge => edge.to === prefix).reduce((sum, edge) => sum + edge.imports, 0),
+        importsOut: edges.filter(edge => edge.from === prefix).reduce((sum, edge) => sum + edge.imports, 0)
+      };
+    }),
+    edges
+  };
+}
+
+function table(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  // The first column is text and left-aligned, the others are numbers
+  const format = (row: string[]): string => row
+    .map((cell, column) => column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))
+    .join('  ')
+    .trimEnd();
+  return [format(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(format)];
+}
+
+export function formatMetricsTable(snapshot: MetricsSnapshot): string {
+  const lines = table(
+    ['Prefix', 'Modules', 'Ca', 'Ce', 'I', 'Depth', 'SCC', 'Imports in', 'Imports out'],
+    snapshot.prefixes.map(metrics => [
+      metrics.prefix,
+      String(metrics.modules),
+      String(metrics.afferent),
+      String(metrics.efferent),
+      metrics.instability.toFixed(2),
+      String(metrics.depth),
+      String(metrics.componentSize),
+      String(metrics.importsIn),
+      String(metrics.importsOut)
+    ])
+  );
+
+  if (snapshot.edges.length > 0) {
+    lines.push('');
+    lines.push(...table(['Edge', 'Imports'], snapshot.edges.map(edge => [`${edge.from} -> ${edge.to}`, String(edge.imports)])));
+  }
+  return lines.join('\n');
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One table for both: prefix rows leave `to` empty, edge rows only fill in `prefix`, `to` and `imports`
+export function formatMetricsCsv(snapshot: MetricsSnapshot): string {
+  const rows: (string | number)[][] = [
+    ['kind', 'prefix', 'to', 'modules', 'afferent', 'efferent', 'instability', 'depth', 'scc_size', 'imports_in', 'imports'],
+    ...snapshot.prefixes.map(metrics => [
+      'prefix', metrics.prefix, '', metrics.modules, metrics.afferent, metrics.efferent, metrics.instability,
+      metrics.depth, metrics.componentSize, metrics.importsIn, metrics.importsOut
+    ]),
+    ...snapshot.edges.map(edge => ['edge', edge.from, edge.to, '', '', '', '', '', '', '', edge.imports])
+  ];
+  return rows.map(row => row.map(csvCell).join(',')).join('\n');
+}
+
+export function formatMetrics(snapshot: MetricsSnapshot, format: MetricsFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(snapshot, null, 2);
+    case 'csv':
+      return formatMetricsCsv(snapshot);
+    default:
+      return formatMetricsTable(snapshot);
+  }
+}
+
+export function readMetricsSnapshot(filePath: string): MetricsSnapshot {
+  let snapshot: MetricsSnapshot;
+  try {
+    snapshot = JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new MetricsError(`Cannot read metrics snapshot ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (snapshot.schemaVersion !== METRICS_SCHEMA_VERSION || !Array.isArray(snapshot.prefixes) || !Array.isArray(snapshot.edges)) {
+    throw new MetricsError(`${filePath} is not a metrics snapshot (written by \`metrics --format json\`)`);
+  }
+  return snapshot;
+}
+
+// Higher is worse for these prefix metrics: more coupling outwards, deeper chains, bigger cycles
+const COMPARED_METRICS: (keyof PrefixMetrics)[] = ['efferent', 'depth', 'componentSize'];
+// More importers make a prefix harder to change but are often intended, so these are only listed
+const INFORMATIONAL_METRICS: (keyof PrefixMetrics)[] = ['afferent', 'instability'];
+
+/**
+ * Differences between two snapshots. Regressions are new edges, edges carrying more imports, and prefixes
+ * depending on more prefixes, sitting deeper or in a larger cycle; the opposite changes are listed as well.
+ * Changes in afferent coupling and instability are listed as informational.
+ */
+export function compareMetrics(before: MetricsSnapshot, after: MetricsSnapshot): MetricsChange[] {
+  const changes: MetricsChange[] = [];
+  const beforePrefixes = new Map(before.prefixes.map(metrics => [metrics.prefix, metrics]));
+
+  for (const metrics of after.prefixes) {
+    const previous = beforePrefixes.get(metrics.prefix);
+    if (!previous) {
+      continue;
+    }
+    for (const metric of COMPARED_METRICS) {
+      const [was, is] = [previous[metric] as number, metrics[metric] as number];
+      if (was !== is) {
+        changes.push({ subject: metrics.prefix, metric, before: was, after: is, regression: is > was });
+      }
+    }
+    for (const metric of INFORMATIONAL_METRICS) {
+      const [was, is] = [previous[metric] as number, metrics[metric] as number];
+      if (was !== is) {
+        changes.push({ subject: metrics.prefix, metric, before: was, after: is, regression: false, informational: true });
+      }
+    }
+  }
+
+  const edgeKey = (edge: EdgeMetrics): string => `${edge.from} -> ${edge.to}`;
+  const beforeEdges = new Map(before.edges.map(edge => [edgeKey(edge), edge.imports]));
+  const afterEdges = new Map(after.edges.map(edge => [edgeKey(edge), edge.imports]));
+  for (const [edge, imports] of afterEdges) {
+    const was = beforeEdges.get(edge);
+    if (was !== imports) {
+      changes.push({ subject: edge, metric: 'imports', before: was ?? null, after: imports, regression: was === undefined || imports > was });
+    }
+  }
+  for (const [edge, imports] of beforeEdges) {
+    if (!afterEdges.has(edge)) {
+      changes.push({ subject: edge, metric: 'imports', before: imports, after: null, regression: false });
+    }
+  }
+
+  return changes.sort((a, b) => Number(b.regression) - Number(a.regression) ||
+    Number(Boolean(a.informational)) - Number(Boolean(b.informational)) || a.subject.localeCompare(b.subject));
+}
+
+export function formatMetricsComparison(changes: MetricsChange[]): string {
+  if (changes.length === 0) {
+    return 'No metric changed.';
+  }
+  const show = (value: number | null): string => value === null ? 'none' : String(value);
+  const regressions = changes.filter(change => change.regression);
+  const informational = changes.filter(change => change.informational);
+  const lines = [
+    `${regressions.length} regression(s), ${changes.length - regressions.length - informational.length} improvement(s), ` +
+      `${informational.length} informational change(s)`,
+    ''
+  ];
+  for (const change of changes) {
+    const mark = change.regression ? '✗' : change.informational ? '·' : '✓';
+    lines.push(`${mark} ${change.subject}: ${change.metric} ${show(change.before)} -> ${show(change.after)}`);
+  }
+  return lines.join('\n');
+}
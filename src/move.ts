@@ -0,0 +1,331 @@
+import { existsSync, mkdirSync, readFileSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, dirname, extname, join, relative, resolve, sep } from 'path';
+import { ModuleParser } from './parser';
+import { AnalysisResult, DependencyCycle, ModuleInfo } from './types';
+
+export class MoveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MoveError';
+  }
+}
+
+export interface FileEdit {
+  // Absolute path of the file before the move
+  path: string;
+  // Set for the moved file itself
+  newPath?: string;
+  before: string;
+  after: string;
+  // Number of import specifiers rewritten in the file
+  rewrites: number;
+}
+
+export interface MovePlan {
+  from: string;
+  to: string;
+  edits: FileEdit[];
+  // Imports of the file that could not be rewritten, e.g. workspace package entry points
+  warnings: string[];
+}
+
+interface Rewrite {
+  start: number;
+  end: number;
+  specifier: string;
+}
+
+// Directories with their modules, as parsed by OrderOrder
+type ParsedRoots = { dir: string; modules: ModuleInfo[] }[];
+
+const CONTEXT_LINES = 3;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+// `.` and `..` name the index file of the importer's directory and of its parent
+function isRelative(specifier: string): boolean {
+  return specifier === '.' || specifier === '..' || specifier.startsWith('./') || specifier.startsWith('../');
+}
+
+function relativeSpecifier(fromDir: string, target: string): string {
+  const path = relative(fromDir, target).split(sep).join('/');
+  if (path === '') {
+    return '.';
+  }
+  return path === '..' || path.startsWith('../') ? path : `./${path}`;
+}
+
+function stem(filePath: string): string {
+  return filePath.slice(0, filePath.length - extname(filePath).length);
+}
+
+function displayPath(filePath: string): string {
+  return relative(process.cwd(), filePath).split(sep).join('/');
+}
+
+// The path a specifier spells out for the moved file, before and after the move: with or without extension,
+// with another extension (`./theme.js` for theme.ts) or as the directory of an index file
+function spelledTargets(specifier: string, oldFile: string, newFile: string): [string, string] | null {
+  const last = specifier.split('/').pop()!;
+  if (last === basename(oldFile)) {
+    return [oldFile, newFile];
+  }
+  if (last === basename(stem(oldFile))) {
+    return [stem(oldFile), stem(newFile)];
+  }
+  if (stem(last) === basename(stem(oldFile)) && extname(last)) {
+    return [stem(oldFile) + extname(last), stem(newFile) + extname(last)];
+  }
+  if (basename(stem(oldFile)) === 'index') {
+    return [dirname(oldFile), basename(stem(newFile)) === 'index' ? dirname(newFile) : stem(newFile)];
+  }
+  return null;
+}
+
+// A new specifier for an import of the moved file, keeping path aliases when the new location is still under them
+function rewriteSpecifier(specifier: string, importerDir: string, oldFile: string, newFile: string): string | null {
+  const targets = spelledTargets(specifier, oldFile, newFile);
+  if (!targets) {
+    return null;
+  }
+  const [oldTarget, newTarget] = targets;
+  if (isRelative(specifier)) {
+    return relativeSpecifier(importerDir, newTarget);
+  }
+
+  // `@/ui/theme` for src/ui/theme.ts: the alias stands for the directory in front of the matching segments
+  const specifierSegments = specifier.split('/');
+  const targetSegments = oldTarget.split(sep);
+  let matching = 0;
+  while (matching < specifierSegments.length - 1 && matching < targetSegments.length &&
+         specifierSegments[specifierSegments.length - 1 - matching] === targetSegments[targetSegments.length - 1 - matching]) {
+    matching++;
+  }
+  if (matching === 0) {
+    return null;
+  }
+  const aliasDir = targetSegments.slice(0, targetSegments.length - matching).join(sep);
+  if (!newTarget.startsWith(aliasDir + sep)) {
+    return relativeSpecifier(importerDir, newTarget);
+  }
+  const alias = specifierSegments.slice(0, specifierSegments.length - matching).join('/');
+  return `${alias}/${relative(aliasDir, newTarget).split(sep).join('/')}`;
+}
+
+function applyRewrites(content: string, rewrites: Rewrite[]): string {
+  let result = content;
+  for (const rewrite of [...rewrites].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, rewrite.start) + rewrite.specifier + result.slice(rewrite.end);
+  }
+  return result;
+}
+
+/**
+ * Works out how moving a source file changes the analysed files: every import, `require` and `import()`
+ * of the file is pointed at its new location, and its own relative imports are adjusted to its new directory.
+ */
+export function planMove(parser: ModuleParser, parsed: ParsedRoots, from: string, to: string): MovePlan {
+  const oldFile = resolve(from);
+  if (!parsed.some(({ modules }) => modules.some(module => resolve(module.path) === oldFile))) {
+    throw new MoveError(`${from} is not one of the analysed source files`);
+  }
+  const toDirectory = (existsSync(to) && statSync(to).isDirectory()) || /[\\/]$/.test(to);
+  if (!toDirectory && !extname(to)) {
+    throw new MoveError(`${to} has no extension: name the new file with one, or end it with / to move into a new directory`);
+  }
+  const newFile = toDirectory ? join(resolve(to), basename(oldFile)) : resolve(to);
+  if (existsSync(newFile)) {
+    throw new MoveError(`${displayPath(newFile)} already exists`);
+  }
+
+  const rewrites = new Map<string, Rewrite[]>();
+  const warnings: string[] = [];
+  const addRewrite = (file: string, rewrite: Rewrite): void => {
+    rewrites.set(file, [...(rewrites.get(file) || []), rewrite]);
+  };
+
+  // Imports of the moved file, found through the dependencies the parser resolved
+  for (const { dir, modules } of parsed) {
+    const oldName = parser.moduleNameOf(oldFile, dir);
+    const directoryName = basename(stem(oldFile)) === 'index' ? parser.moduleNameOf(dirname(oldFile), dir) : null;
+    for (const module of modules) {
+      const importer = resolve(module.path);
+      const positions = new Set(module.dependencies
+        .filter(dep => dep.to === oldName || dep.to === directoryName)
+        .map(dep => `${dep.line}:${dep.column}`));
+      if (importer === oldFile || positions.size === 0) {
+        continue;
+      }
+
+      for (const location of parser.locateImports(readFileSync(importer, 'utf-8'), importer)) {
+        if (!positions.has(`${location.line}:${location.column}`)) {
+          continue;
+        }
+        const specifier = rewriteSpecifier(location.specifier, dirname(importer), oldFile, newFile);
+        if (specifier === null) {
+          warnings.push(`${displayPath(importer)}:${location.line}: left '${location.specifier}' unchanged`);
+        } else if (specifier !== location.specifier) {
+          addRewrite(importer, { start: location.start, end: location.end, specifier });
+        }
+      }
+    }
+  }
+
+  // The moved file's own relative imports still point at the same files, seen from its new directory
+  const movedContent = readFileSync(oldFile, 'utf-8');
+  for (const location of parser.locateImports(movedContent, oldFile)) {
+    if (isRelative(location.specifier)) {
+      const specifier = relativeSpecifier(dirname(newFile), resolve(dirname(oldFile), location.specifier));
+      if (specifier !== location.specifier) {
+        addRewrite(oldFile, { start: location.start, end: location.end, specifier });
+      }
+    }
+  }
+
+  const edits: FileEdit[] = Array.from(rewrites.entries())
+    .filter(([file]) => file !== oldFile)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([file, fileRewrites]) => {
+      const before = readFileSync(file, 'utf-8');
+      return { path: file, before, after: applyRewrites(before, fileRewrites), rewrites: fileRewrites.length };
+    });
+  const ownRewrites = rewrites.get(oldFile) || [];
+  edits.unshift({
+    path: oldFile,
+    newPath: newFile,
+    before: movedContent,
+    after: applyRewrites(movedContent, ownRewrites),
+    rewrites: ownRewrites.length
+  });
+
+  return { from: oldFile, to: newFile, edits, warnings };
+}
+
+export function applyMove(plan: MovePlan): void {
+  for (const edit of plan.edits) {
+    if (edit.newPath) {
+      mkdirSync(dirname(edit.newPath), { recursive: true });
+      writeFileSync(edit.newPath, edit.after);
+      unlinkSync(edit.path);
+    } else {
+      writeFileSync(edit.path, edit.after);
+    }
+  }
+}
+
+// The parsed modules as they will be after the move, for analysing the result without touching any file
+export function simulateMove(parser: ModuleParser, parsed: ParsedRoots, plan: MovePlan): ParsedRoots {
+  return parsed.map(({ dir, modules }) => {
+    const oldName = parser.moduleNameOf(plan.from, dir);
+    const newName = parser.moduleNameOf(plan.to, dir);
+    const directoryName = basename(stem(plan.from)) === 'index' ? parser.moduleNameOf(dirname(plan.from), dir) : null;
+    // Directory imports keep naming a directory while the file is still an index, as the parser names them
+    const newDirectoryName = basename(stem(plan.to)) === 'index' ? parser.moduleNameOf(dirname(plan.to), dir) : newName;
+    return {
+      dir,
+      modules: modules.map(module => {
+        const moved = resolve(module.path) === plan.from;
+        return {
+          ...module,
+          path: moved ? plan.to : module.path,
+          name: moved ? newName : module.name,
+          dependencies: module.dependencies.map(dep => ({
+            ...dep,
+            from: moved ? newName : dep.from,
+            to: dep.to === oldName ? newName : dep.to === directoryName ? newDirectoryName : dep.to
+          }))
+        };
+      })
+    };
+  });
+}
+
+// Only specifiers are rewritten, so every file keeps its lines and a changed line maps to itself
+function fileDiff(edit: FileEdit): string[] {
+  const oldPath = displayPath(edit.path);
+  const newPath = displayPath(edit.newPath || edit.path);
+  const lines = [`diff --git a/${oldPath} b/${newPath}`];
+  if (edit.newPath) {
+    lines.push(`rename from ${oldPath}`, `rename to ${newPath}`);
+  }
+  if (edit.before === edit.after) {
+    return lines;
+  }
+  lines.push(`--- a/${oldPath}`, `+++ b/${newPath}`);
+
+  // A final line break ends the last line rather than starting another one
+  const toLines = (content: string): string[] => content.replace(/\n$/, '').split('\n');
+  const before = toLines(edit.before);
+  const after = toLines(edit.after);
+  const lastLine = before.length - 1;
+  const beforeEnded = edit.before.endsWith('\n');
+  const afterEnded = edit.after.endsWith('\n');
+  // The last line differs also when only one side ends with a line break
+  const differs = (index: number): boolean =>
+    before[index] !== after[index] || (index === lastLine && beforeEnded !== afterEnded);
+  // `git apply` needs the marker after a last line without a line break, on each side that has one
+  const withMarker = (side: string[], index: number, ended: boolean): string[] =>
+    index === lastLine && !ended ? [...side, NO_NEWLINE_MARKER] : side;
+  const changed = before.map((_, index) => differs(index) ? index : -1).filter(index => index !== -1);
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    // Changes closer than twice the context share a hunk
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changed.length && changed[hunkEnd + 1] - changed[hunkEnd] <= 2 * CONTEXT_LINES) {
+      hunkEnd++;
+    }
+    const first = Math.max(0, changed[hunkStart] - CONTEXT_LINES);
+    const last = Math.min(lastLine, changed[hunkEnd] + CONTEXT_LINES);
+    const count = last - first + 1;
+    lines.push(`@@ -${first + 1},${count} +${first + 1},${count} @@`);
+    for (let index = first; index <= last; index++) {
+      if (!differs(index)) {
+        lines.push(...withMarker([` ${before[index]}`], index, beforeEnded));
+        continue;
+      }
+      // A run of changed lines is shown as all its removals followed by all its additions
+      let runEnd = index;
+      while (runEnd + 1 <= last && differs(runEnd + 1)) {
+        runEnd++;
+      }
+      lines.push(
+        ...withMarker(before.slice(index, runEnd + 1).map(line => `-${line}`), runEnd, beforeEnded),
+        ...withMarker(after.slice(index, runEnd + 1).map(line => `+${line}`), runEnd, afterEnded)
+      );
+      index = runEnd;
+    }
+    hunkStart = hunkEnd + 1;
+  }
+  return lines;
+}
+
+export function formatMoveDiff(plan: MovePlan): string {
+  return plan.edits.flatMap(fileDiff).join('\n');
+}
+
+function cycleKey(cycle: DependencyCycle): string {
+  return cycle.prefixes.join(' -> ');
+}
+
+// What the move does to the analysis: counts before and after, and the cycles it resolves or introduces
+export function formatMoveSummary(plan: MovePlan, before: AnalysisResult, after: AnalysisResult, dryRun: boolean): string {
+  const rewrites = plan.edits.reduce((sum, edit) => sum + edit.rewrites, 0);
+  const files = plan.edits.filter(edit => edit.rewrites > 0).length;
+  const lines = [
+    `${dryRun ? 'Would move' : 'Moved'} ${displayPath(plan.from)} to ${displayPath(plan.to)}, ` +
+      `rewriting ${rewrites} import(s) in ${files} file(s)`,
+    ...plan.warnings.map(warning => `  warning: ${warning}`),
+    `Cycles: ${before.cycles.length} -> ${after.cycles.length}, ` +
+      `feedback arcs: ${before.feedbackArcs.length} -> ${after.feedbackArcs.length}, ` +
+      `violations: ${before.violations.length} -> ${after.violations.length}`
+  ];
+
+  const beforeKeys = new Set(before.cycles.map(cycleKey));
+  const afterKeys = new Set(after.cycles.map(cycleKey));
+  for (const cycle of before.cycles.filter(cycle => !afterKeys.has(cycleKey(cycle)))) {
+    lines.push(`  - resolved: ${cycleKey(cycle)}`);
+  }
+  for (const cycle of after.cycles.filter(cycle => !beforeKeys.has(cycleKey(cycle)))) {
+    lines.push(`  + introduced: ${cycleKey(cycle)}`);
+  }
+  return lines.join('\n');
+}
@@ -1,7 +1,20 @@
 import { ModuleParser } from './parser';
+import { DEFAULT_CONCURRENCY, ParserPool } from './pool';
 import { GraphAnalyzer } from './graph';
-import { AnalysisResult, DependencyGraph, FeedbackArc } from './types';
-import { extractModulePrefix } from './utils';
+import { FixSuggester, MAX_SUGGESTED_ARCS } from './fixes';
+import { MovePlan, applyMove, planMove, simulateMove } from './move';
+import { RuleEngine } from './rules';
+import { UnusedReport, findUnused } from './unused';
+import { minimatch } from 'minimatch';
+import { relative, resolve } from 'path';
+import { AnalysisResult, AnalyzeOptions, DependencyGraph, FeedbackArc, FixSuggestion, GraphViewOptions, ModuleInfo, PackageAnalysis } from './types';
+import { DirectoryCluster, ViewNode, buildGraphView, clusterByDirectory } from './graph-view';
+import { CycleDiff, IncrementalAnalysis, WatchHandle, watchDirectories } from './watch';
+import { createModuleLevelExtractor, createPrefixExtractor, findPackageRoots } from './utils';
+
+const WORKSPACE_ROOT = '(workspace root)';
+// Files tried per unresolved import in the text report; JSON output lists all of them
+const MAX_LISTED_CANDIDATES = 5;
 
 export class OrderOrder {
   private parser: ModuleParser;
@@ -12,20 +25,217 @@ export class OrderOrder {
     this.analyzer = new GraphAnalyzer();
   }
 
-  analyze(directories: string[], excludePatterns: string[] = []): AnalysisResult {
-    const allModules = directories.flatMap(dir => this.parser.parseDirectory(dir, excludePatterns));
+  async analyze(directories: string[], excludePatterns: string[] = [], options: AnalyzeOptions = {}): Promise<AnalysisResult> {
+    const parser = this.parserFor(options);
+    const parsed = await this.parseDirectories(parser, directories, excludePatterns, options);
+    return this.analyzeParsed(parser, parsed, options);
+  }
+
+  /**
+   * Moves a source file and rewrites the imports of it and its own relative imports. With `dryRun` nothing is
+   * written and the analysis after the move is computed from the rewritten module graph instead of the disk.
+   */
+  async move(
+    directories: string[],
+    excludePatterns: string[],
+    options: AnalyzeOptions,
+    from: string,
+    to: string,
+    dryRun: boolean
+  ): Promise<{ plan: MovePlan; before: AnalysisResult; after: AnalysisResult }> {
+    const parser = this.parserFor(options);
+    const parsed = await this.parseDirectories(parser, directories, excludePatterns, options);
+    const before = this.analyzeParsed(parser, parsed, options);
+    const plan = planMove(parser, parsed, from, to);
+    
+    if (dryRun) {
+      return { plan, before, after: this.analyzeParsed(parser, simulateMove(parser, parsed, plan), options) };
+    }
+    applyMove(plan);
+    return { plan, before, after: await this.analyze(directories, excludePatterns, options) };
+  }
+
+  /**
+   * Modules and prefixes that nothing reachable from the entry points imports. Entries are the files matching
+   * the absolute `entryPatterns` globs or, without any, those the package.json files of the directories declare.
+   */
+  async findUnused(
+    directories: string[],
+    excludePatterns: string[],
+    options: AnalyzeOptions,
+    entryPatterns: string[] = [],
+    additionalPatterns: string[] = []
+  ): Promise<UnusedReport> {
+    const parser = this.parserFor(options);
+    const parsed = await this.parseDirectories(parser, directories, excludePatterns, options);
+    const { graph } = this.analyzeParsed(parser, parsed, options);
     
-    const graph = this.analyzer.buildGraph(allModules);
-    const feedbackArcs = this.analyzer.findFeedbackArcs(graph);
-    const violations = this.analyzer.detectViolations(graph);
+    const entryFiles = new Set(entryPatterns.length > 0 ? [] : directories.flatMap(dir => parser.workspaces.entryPoints(dir)));
+    // Additional patterns add to either set, for files started by path rather than imported, like worker scripts
+    const patterns = [...entryPatterns, ...additionalPatterns];
+    const isEntry = (filePath: string): boolean => entryFiles.has(filePath) ||
+      patterns.some(pattern => minimatch(filePath.replace(/\\/g, '/'), pattern.replace(/\\/g, '/'), { dot: true }));
+    const entries = parsed.flatMap(({ modules }) => modules)
+      .filter(module => isEntry(resolve(module.path)))
+      .map(module => module.name);
+    return findUnused(graph, entries);
+  }
+
+  private analyzeParsed(parser: ModuleParser, parsed: { dir: string; modules: ModuleInfo[] }[], options: AnalyzeOptions): AnalysisResult {
+    const allModules = parsed.flatMap(({ modules }) => modules);
+    const typeImports = options.typeImports || 'include';
+    const level = options.level || 'prefix';
+    
+    const moduleNames = new Set(allModules.map(module => module.name));
+    const fullAnalyzer = this.createAnalyzer(parsed, options, moduleNames, false);
+    const analyzer = typeImports === 'include' ? fullAnalyzer : this.createAnalyzer(parsed, options, moduleNames, true);
+    const graph = analyzer.buildGraph(allModules);
+    const cycles = analyzer.findCycles(graph, options.maxCycles);
+    const violations = analyzer.detectViolations(graph);
+    // Moving a module to another prefix means nothing when every module is its own node
+    const suggester = level === 'module' ? null : new FixSuggester(analyzer, graph, violations);
+    const arcs = analyzer.findFeedbackArcs(graph);
+    const suggested = new Set([...arcs].sort((a, b) => a.violations.length - b.violations.length).slice(0, MAX_SUGGESTED_ARCS));
+    const feedbackArcs = arcs.map(arc => suggester && suggested.has(arc) ? { ...arc, fixes: suggester.suggest(arc) } : arc);
+    
+    // Violations that only exist once type-only edges are added back are reported, but do not fail the run
+    let typeOnlyViolations: typeof violations = [];
+    if (typeImports === 'warn') {
+      const runtimeViolations = new Set(violations);
+      typeOnlyViolations = fullAnalyzer.detectViolations(fullAnalyzer.buildGraph(allModules))
+        .filter(violation => !runtimeViolations.has(violation));
+    }
+    
+    // Allowed edges only exempt imports from cycle detection; deny rules still apply to them
+    const ruleGraph = (): DependencyGraph => options.allowedEdges && options.allowedEdges.length > 0
+      ? this.createAnalyzer(parsed, { ...options, allowedEdges: undefined }, moduleNames, typeImports !== 'include').buildGraph(allModules)
+      : graph;
+    const ruleViolations = options.rules && options.rules.length > 0
+      ? new RuleEngine(options.rules, { ignoreTypeImports: typeImports !== 'include' }).check(ruleGraph())
+      : [];
+    const packages = this.analyzePackages(parser, parsed, typeImports !== 'include', options.maxCycles);
 
     return {
+      level,
       graph,
       feedbackArcs,
-      violations
+      cycles,
+      violations,
+      typeOnlyViolations,
+      ruleViolations,
+      unresolvedImports: allModules.flatMap(module => module.unresolved || []),
+      unparsedFiles: Array.from(parser.unparsedFiles).sort(),
+      ...(packages ? { packages } : {}),
+      ...(parser.cache ? { cache: parser.cache.stats } : {})
     };
   }
 
+  // Analyses once, then keeps re-analysing incrementally as files under the directories change
+  async watch(
+    directories: string[],
+    excludePatterns: string[],
+    options: AnalyzeOptions,
+    onUpdate: (diff: CycleDiff) => void
+  ): Promise<WatchHandle> {
+    const parser = this.parserFor(options);
+    const parsed = await this.parseDirectories(parser, directories, excludePatterns, options);
+    const allModules = parsed.flatMap(({ modules }) => modules);
+    const moduleNames = new Set(allModules.map(module => module.name));
+    const analyzer = this.createAnalyzer(parsed, options, moduleNames, (options.typeImports || 'include') !== 'include');
+    
+    const analysis = new IncrementalAnalysis(parser, analyzer, directories, excludePatterns, moduleNames, options.maxCycles);
+    analysis.start(allModules);
+    const stop = watchDirectories(directories, changedFiles => onUpdate(analysis.update(changedFiles)));
+    
+    return { analysis, close: stop };
+  }
+
+  private async parseDirectories(
+    parser: ModuleParser,
+    directories: string[],
+    excludePatterns: string[],
+    options: AnalyzeOptions
+  ): Promise<{ dir: string; modules: ModuleInfo[] }[]> {
+    const concurrency = options.concurrency || DEFAULT_CONCURRENCY;
+    // With a single thread, parsing on the main thread avoids the cost of starting a worker
+    const pool = concurrency > 1 ? new ParserPool(concurrency) : null;
+    try {
+      const modules = await Promise.all(directories.map(dir => parser.parseDirectory(dir, excludePatterns, pool)));
+      parser.cache?.save();
+      return directories.map((dir, index) => ({ dir, modules: modules[index] }));
+    } finally {
+      await pool?.close();
+    }
+  }
+
+  // Groups modules by the workspace package they belong to; null outside of workspaces
+  private analyzePackages(
+    parser: ModuleParser,
+    parsed: { dir: string; modules: ModuleInfo[] }[],
+    ignoreTypeImports: boolean,
+    maxCycles?: number
+  ): PackageAnalysis | null {
+    const packageNames = new Map<string, string | null>();
+    const packageOf = (name: string, filePath: string): void => {
+      if (!packageNames.has(name)) {
+        const pkg = parser.workspaces.packageOf(filePath);
+        packageNames.set(name, pkg ? pkg.name : null);
+      }
+    };
+    for (const { dir, modules } of parsed) {
+      for (const module of modules) {
+        packageOf(module.name, module.path);
+        for (const dep of module.dependencies) {
+          // Imports of index files are named after their directory, which still lies inside the package
+          packageOf(dep.to, resolve(dir, dep.to));
+        }
+      }
+    }
+    if (!Array.from(packageNames.values()).some(name => name !== null)) {
+      return null;
+    }
+
+    // Modules outside every package, such as scripts at the workspace root, form a node of their own
+    const analyzer = new GraphAnalyzer({ ignoreTypeImports, prefixOf: name => packageNames.get(name) || WORKSPACE_ROOT });
+    const graph = analyzer.buildGraph(parsed.flatMap(({ modules }) => modules));
+    return {
+      graph,
+      feedbackArcs: analyzer.findFeedbackArcs(graph),
+      cycles: analyzer.findCycles(graph, maxCycles),
+      violations: analyzer.detectViolations(graph)
+    };
+  }
+
+  private parserFor(options: AnalyzeOptions): ModuleParser {
+    if (options.cacheLocation || options.resolveImport) {
+      return new ModuleParser(options.extensions, options.cacheLocation, options.resolveImport);
+    }
+    return options.extensions ? new ModuleParser(options.extensions) : this.parser;
+  }
+
+  private createAnalyzer(
+    parsed: { dir: string; modules: ModuleInfo[] }[],
+    options: AnalyzeOptions,
+    moduleNames: Set<string>,
+    ignoreTypeImports: boolean
+  ): GraphAnalyzer {
+    const prefix = { ...options.prefix };
+    if (options.groupByPackage) {
+      const packageRoots = parsed.flatMap(({ dir, modules }) => findPackageRoots(modules, dir));
+      prefix.packageRoots = [...(prefix.packageRoots || []), ...packageRoots];
+    }
+    
+    const defaultPrefixOf = options.level === 'module' ? createModuleLevelExtractor(moduleNames) : createPrefixExtractor(prefix);
+    const customPrefixOf = options.prefixOf;
+    
+    return new GraphAnalyzer({
+      ignoreTypeImports,
+      prefix,
+      prefixOf: customPrefixOf ? (moduleName: string): string => customPrefixOf(moduleName, defaultPrefixOf(moduleName)) : defaultPrefixOf,
+      allowedEdges: options.allowedEdges
+    });
+  }
+
   generateReport(result: AnalysisResult): string {
     const lines: string[] = [];
     
@@ -38,21 +248,59 @@ export class OrderOrder {
     
     lines.push(`Total modules analyzed: ${result.graph.modules.size}`);
     lines.push(`Total imports analyzed: ${totalImports}`);
-    lines.push(`Module prefixes found: ${result.graph.prefixDependencies.size}`);
+    if (result.level === 'module') {
+      lines.push(`Modules with dependencies: ${result.graph.prefixDependencies.size}`);
+    } else {
+      lines.push(`Module prefixes found: ${result.graph.prefixDependencies.size}`);
+    }
     lines.push(`Dependency violations found: ${result.violations.length}`);
     lines.push(`Feedback arcs detected: ${result.feedbackArcs.length}`);
+    lines.push(`Cycles found: ${result.cycles.length}`);
+    if (result.typeOnlyViolations.length > 0) {
+      lines.push(`Type-only violations (warnings): ${result.typeOnlyViolations.length}`);
+    }
+    if (result.ruleViolations.length > 0) {
+      lines.push(`Dependency rule violations: ${result.ruleViolations.length}`);
+    }
+    if (result.unresolvedImports.length > 0) {
+      lines.push(`Unresolved imports: ${result.unresolvedImports.length}`);
+    }
+    if (result.unparsedFiles.length > 0) {
+      lines.push(`Files that could not be parsed: ${result.unparsedFiles.length}`);
+    }
+    if (result.baseline) {
+      lines.push(`Known violations suppressed by baseline: ${result.baseline.suppressed}`);
+    }
+    if (result.packages) {
+      lines.push(`Workspace packages found: ${new Set(result.packages.graph.modulePrefixes.values()).size}`);
+      lines.push(`Package cycles found: ${result.packages.cycles.length}`);
+    }
+    if (result.since) {
+      lines.push(`Only reporting imports changed since ${result.since.ref} (${result.since.changedFiles} file(s) changed)`);
+    }
     lines.push('');
     
+    const subject = result.level === 'module' ? 'Module' : 'Module prefix';
     if (this.analyzer.isAcyclic(result.graph)) {
-      lines.push('✅ Module prefix dependencies form a DAG (no cycles detected)');
+      lines.push(`✅ ${subject} dependencies form a DAG (no cycles detected)`);
     } else {
-      lines.push('❌ Module prefix dependencies contain cycles');
+      lines.push(`❌ ${subject} dependencies contain cycles`);
+    }
+    if (result.unresolvedImports.length > 0) {
+      lines.push(`⚠️  ${result.unresolvedImports.length} import(s) could not be resolved and are missing from the graph`);
+    }
+    if (result.unparsedFiles.length > 0) {
+      lines.push(`❌ ${result.unparsedFiles.length} file(s) could not be parsed and are missing from the graph:`);
+      lines.push(...result.unparsedFiles.map(file => `  ${relative(process.cwd(), file)}`));
     }
     lines.push('');
     
     if (result.feedbackArcs.length > 0) {
       lines.push('Feedback Arc Set (edges to remove to make graph acyclic):');
       lines.push('--------------------------------------------------------');
+      const importsToChange = result.feedbackArcs.reduce((sum, arc) => sum + arc.violations.length, 0);
+      lines.push(`Cheapest cut found: ${importsToChange} import(s) across ${result.feedbackArcs.length} edge(s)`);
+      lines.push('');
       for (const arc of result.feedbackArcs) {
         lines.push(`${arc.from} -> ${arc.to}`);
         for (const violation of arc.violations) {
@@ -62,6 +310,35 @@ export class OrderOrder {
       }
     }
     
+    if (result.cycles.length > 0) {
+      lines.push('Cycles:');
+      lines.push('-------');
+      for (const cycle of result.cycles) {
+        lines.push(cycle.prefixes.join(' -> '));
+        if (cycle.closedBy) {
+          lines.push(`  closed by ${cycle.closedBy.from}:${cycle.closedBy.line} importing ${cycle.closedBy.to}`);
+        }
+        for (const hop of cycle.hops) {
+          const more = hop.importCount > 1 ? ` [+${hop.importCount - 1} more]` : '';
+          lines.push(`  ${hop.dependency.from}:${hop.dependency.line} -> ${hop.dependency.to} (${hop.dependency.importType})${more}`);
+        }
+        lines.push('');
+      }
+    }
+    
+    if (result.packages && result.packages.cycles.length > 0) {
+      lines.push('Package Cycles:');
+      lines.push('---------------');
+      for (const cycle of result.packages.cycles) {
+        lines.push(cycle.prefixes.join(' -> '));
+        for (const hop of cycle.hops) {
+          const more = hop.importCount > 1 ? ` [+${hop.importCount - 1} more]` : '';
+          lines.push(`  ${hop.dependency.from}:${hop.dependency.line} -> ${hop.dependency.to} (${hop.dependency.importType})${more}`);
+        }
+        lines.push('');
+      }
+    }
+    
     if (result.violations.length > 0) {
       lines.push('Dependency Violations:');
       lines.push('---------------------');
@@ -71,7 +348,8 @@ export class OrderOrder {
       const processedPairs = new Set<string>();
       
       for (const violation of result.violations) {
-        const key = `${extractModulePrefix(violation.from)} -> ${extractModulePrefix(violation.to)}`;
+        const modulePrefixes = result.graph.modulePrefixes;
+        const key = `${modulePrefixes.get(violation.from)} -> ${modulePrefixes.get(violation.to)}`;
         if (!violationsByPrefix.has(key)) {
           violationsByPrefix.set(key, []);
         }
@@ -110,39 +388,200 @@ export class OrderOrder {
       }
     }
     
-    if (result.feedbackArcs.length === 0 && result.violations.length === 0) {
-      lines.push('🎉 No violations found! Module structure follows proper hierarchy.');
+    if (result.ruleViolations.length > 0) {
+      lines.push('Dependency Rule Violations:');
+      lines.push('--------------------------');
+      for (const ruleViolation of result.ruleViolations) {
+        const rule = ruleViolation.rule;
+        const ruleName = rule.name || `rule #${ruleViolation.ruleIndex + 1} (deny ${rule.from} -> ${rule.to})`;
+        lines.push(`${ruleViolation.from} -> ${ruleViolation.to} violates ${ruleName}${rule.message ? `: ${rule.message}` : ''}`);
+        for (const violation of ruleViolation.dependencies) {
+          lines.push(`  ${violation.from}:${violation.line} -> ${violation.to} (${violation.importType})`);
+        }
+        lines.push('');
+      }
+    }
+    
+    if (result.baseline && result.baseline.fixed.length > 0) {
+      lines.push('Fixed Baseline Entries (run with --update-baseline to remove them):');
+      lines.push('-------------------------------------------------------------------');
+      for (const entry of result.baseline.fixed) {
+        const rule = entry.rule ? ` [${entry.rule}]` : '';
+        const count = entry.count > 1 ? ` x${entry.count}` : '';
+        lines.push(`  ${entry.from} -> ${entry.to} (${entry.importType}, ${entry.kind}${rule})${count}`);
+      }
+      lines.push('');
+    }
+    
+    if (result.unresolvedImports.length > 0) {
+      lines.push('Unresolved Imports:');
+      lines.push('-------------------');
+      const show = (filePath: string): string => relative(process.cwd(), filePath).replace(/\\/g, '/');
+      for (const unresolved of result.unresolvedImports) {
+        lines.push(`  ${show(unresolved.file)}:${unresolved.line}:${unresolved.column} '${unresolved.specifier}' (${unresolved.importType})`);
+        if (unresolved.candidates.length > 0) {
+          const more = unresolved.candidates.length > MAX_LISTED_CANDIDATES
+            ? ` [+${unresolved.candidates.length - MAX_LISTED_CANDIDATES} more]`
+            : '';
+          lines.push(`    tried ${unresolved.candidates.slice(0, MAX_LISTED_CANDIDATES).map(show).join(', ')}${more}`);
+        }
+      }
+      lines.push('');
+    }
+    
+    if (result.typeOnlyViolations.length > 0) {
+      lines.push('Type-only Violations (erased at runtime, reported as warnings):');
+      lines.push('--------------------------------------------------------------');
+      for (const violation of result.typeOnlyViolations) {
+        lines.push(`  ${violation.from}:${violation.line} -> ${violation.to} (${violation.importType})`);
+      }
+      lines.push('');
+    }
+    
+    if (result.feedbackArcs.length === 0 && result.violations.length === 0 && result.ruleViolations.length === 0) {
+      // Files missing from the graph could hide violations, listed above
+      if (result.unparsedFiles.length === 0) {
+        lines.push('🎉 No violations found! Module structure follows proper hierarchy.');
+      }
     } else {
       lines.push('Recommendations:');
       lines.push('---------------');
-      lines.push('1. Consider restructuring modules to eliminate circular dependencies');
-      lines.push('2. Move shared code to a common base module');
-      lines.push('3. Use dependency injection to break tight coupling');
-      lines.push('4. Consider splitting large modules into smaller, focused ones');
+      const fixable = result.feedbackArcs.filter(arc => arc.fixes && arc.fixes.length > 0);
+      for (const arc of fixable) {
+        lines.push(`${arc.from} -> ${arc.to} (${arc.violations.length} import(s)):`);
+        arc.fixes!.forEach((fix, index) => lines.push(`  ${index + 1}. ${this.describeFix(fix)}`));
+        lines.push('');
+      }
+      // Generic advice only when no concrete change was found
+      if (fixable.length === 0) {
+        lines.push('1. Consider restructuring modules to eliminate circular dependencies');
+        lines.push('2. Move shared code to a common base module');
+        lines.push('3. Use dependency injection to break tight coupling');
+        lines.push('4. Consider splitting large modules into smaller, focused ones');
+      }
     }
     
     return lines.join('\n');
   }
 
-  generateDotGraph(graph: DependencyGraph, feedbackArcs: FeedbackArc[]): string {
+  private describeFix(fix: FixSuggestion): string {
+    const modules = fix.modules.join(', ');
+    const change = fix.kind === 'extract'
+      ? `extract ${fix.symbols!.join(', ')} from ${modules} into a new module in ${fix.target}`
+      : `move ${modules} to ${fix.target}`;
+    const left = fix.remainingViolations === 0 ? 'no cyclic imports left' : `${fix.remainingViolations} cyclic import(s) left`;
+    return `${change}: changes ${fix.importsChanged} import(s), removes ${fix.removedImports} back-import(s) ` +
+      `and adds no new cycles (${left})`;
+  }
+
+  generateDotGraph(graph: DependencyGraph, feedbackArcs: FeedbackArc[], options: GraphViewOptions = {}): string {
+    const view = buildGraphView(graph, feedbackArcs, options);
+    const quote = (value: string): string => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
     const lines: string[] = [];
     lines.push('digraph ModuleDependencies {');
     lines.push('  rankdir=TB;');
     lines.push('  node [shape=box];');
     lines.push('');
     
-    const feedbackSet = new Set(feedbackArcs.map(arc => `${arc.from}->${arc.to}`));
+    const nodeLine = (node: ViewNode, indent: string): string => {
+      if (node.collapsed) {
+        return `${indent}${quote(node.id)} [label=${quote(`${node.id} (${node.collapsed})`)}, style=dashed];`;
+      }
+      return `${indent}${quote(node.id)}${node.focused ? ' [style=filled, fillcolor=lightyellow]' : ''};`;
+    };
+    const nodesById = new Map(view.nodes.map(node => [node.id, node]));
+    
+    // Cycles get their own highlighted cluster; everything else is grouped by directory
+    const inComponent = new Set(view.components.flat());
+    view.components.forEach((component, index) => {
+      lines.push(`  subgraph cluster_scc_${index} {`);
+      lines.push(`    label=${quote(`cycle ${index + 1}`)};`);
+      lines.push('    style=filled;');
+      lines.push('    color="#fde0dd";');
+      for (const id of component) {
+        lines.push(nodeLine(nodesById.get(id)!, '    '));
+      }
+      lines.push('  }');
+    });
+    
+    let clusterCount = 0;
+    const renderCluster = (cluster: DirectoryCluster, indent: string): void => {
+      for (const child of cluster.children) {
+        lines.push(`${indent}subgraph cluster_${clusterCount++} {`);
+        lines.push(`${indent}  label=${quote(child.path)};`);
+        renderCluster(child, `${indent}  `);
+        lines.push(`${indent}}`);
+      }
+      for (const id of cluster.nodes) {
+        lines.push(nodeLine(nodesById.get(id)!, indent));
+      }
+    };
+    renderCluster(clusterByDirectory(view.nodes.map(node => node.id).filter(id => !inComponent.has(id))), '  ');
+    lines.push('');
     
-    for (const [prefix, dependencies] of graph.prefixDependencies) {
-      for (const dep of dependencies) {
-        const edgeKey = `${prefix}->${dep}`;
-        const style = feedbackSet.has(edgeKey) ? ' [color=red, style=bold]' : '';
-        lines.push(`  "${prefix}" -> "${dep}"${style};`);
+    for (const edge of view.edges) {
+      const attributes = [`label="${edge.imports}"`, `penwidth=${(1 + Math.log2(Math.max(edge.imports, 1))).toFixed(2)}`];
+      if (edge.feedback) {
+        attributes.push('color=red', 'style=bold');
       }
+      lines.push(`  ${quote(edge.from)} -> ${quote(edge.to)} [${attributes.join(', ')}];`);
     }
     
     lines.push('}');
     return lines.join('\n');
   }
 
+  generateMermaidGraph(graph: DependencyGraph, feedbackArcs: FeedbackArc[], options: GraphViewOptions = {}): string {
+    const view = buildGraphView(graph, feedbackArcs, options);
+    // Mermaid ids must be plain words, so nodes are numbered and named through their labels
+    const ids = new Map(view.nodes.map((node, index) => [node.id, `n${index}`]));
+    const label = (value: string): string => `"${value.replace(/"/g, '#quot;')}"`;
+    const lines: string[] = ['flowchart TB'];
+    
+    const nodeLine = (node: ViewNode, indent: string): string => {
+      const text = node.collapsed ? `${node.id} (${node.collapsed})` : node.id;
+      return `${indent}${ids.get(node.id)}[${label(text)}]`;
+    };
+    const nodesById = new Map(view.nodes.map(node => [node.id, node]));
+    
+    const inComponent = new Set(view.components.flat());
+    view.components.forEach((component, index) => {
+      lines.push(`  subgraph scc${index}[${label(`cycle ${index + 1}`)}]`);
+      for (const id of component) {
+        lines.push(nodeLine(nodesById.get(id)!, '    '));
+      }
+      lines.push('  end');
+      lines.push(`  style scc${index} fill:#fde0dd,stroke:#d62728`);
+    });
+    
+    let clusterCount = 0;
+    const renderCluster = (cluster: DirectoryCluster, indent: string): void => {
+      for (const child of cluster.children) {
+        lines.push(`${indent}subgraph dir${clusterCount++}[${label(child.path)}]`);
+        renderCluster(child, `${indent}  `);
+        lines.push(`${indent}end`);
+      }
+      for (const id of cluster.nodes) {
+        lines.push(nodeLine(nodesById.get(id)!, indent));
+      }
+    };
+    renderCluster(clusterByDirectory(view.nodes.map(node => node.id).filter(id => !inComponent.has(id))), '  ');
+    
+    view.edges.forEach((edge, index) => {
+      lines.push(`  ${ids.get(edge.from)} -->|${edge.imports}| ${ids.get(edge.to)}`);
+      if (edge.feedback) {
+        lines.push(`  linkStyle ${index} stroke:#d62728,stroke-width:3px`);
+      }
+    });
+    for (const node of view.nodes) {
+      if (node.focused) {
+        lines.push(`  style ${ids.get(node.id)} fill:#ffffe0`);
+      } else if (node.collapsed) {
+        lines.push(`  style ${ids.get(node.id)} stroke-dasharray:4`);
+      }
+    }
+    
+    return lines.join('\n');
+  }
+
 }
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { parentPort } from 'worker_threads';
+import { ModuleParser } from './parser';
+import { ScanReply, ScanTask } from './pool';
+
+// Import scanning does not depend on resolution settings, so a default parser serves every task
+const parser = new ModuleParser();
+
+parentPort!.on('message', (task: ScanTask) => {
+  let reply: ScanReply;
+  try {
+    reply = { id: task.id, result: parser.scanFile(task.filePath, task.knownHash) };
+  } catch (error) {
+    reply = { id: task.id, error: error instanceof Error ? error.message : String(error) };
+  }
+  parentPort!.postMessage(reply);
+});
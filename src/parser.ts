@@ -1,153 +1,485 @@
-import { readFileSync, readdirSync, statSync } from 'fs';
-import { join, extname, relative, dirname } from 'path';
+import { existsSync, readFileSync, statSync } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import { join, extname, relative, dirname, resolve } from 'path';
 import { minimatch } from 'minimatch';
-import { ModuleDependency, ModuleInfo } from './types';
+import * as ts from 'typescript';
+import { ParseCache, ScanResult, ScannedImport, hashOf } from './cache';
+import { extractEmbeddedScript } from './embedded';
+import { MIN_POOLED_FILES, ParserPool } from './pool';
+import { SCRIPT_EXTENSIONS, TsConfigResolver } from './resolver';
+import { WorkspaceResolver } from './workspace';
+import { ImportResolver, ModuleDependency, ModuleInfo, UnresolvedImport } from './types';
 import { extractModulePrefix } from './utils';
 
+interface ImportReference {
+  node: ts.Node;
+  literal: ts.StringLiteralLike;
+  importType: ModuleDependency['importType'];
+  symbols?: string[];
+}
+
+export interface ImportLocation extends ScannedImport {
+  start: number;
+  end: number;
+}
+
+// Bump whenever import scanning changes, so cached scans from older versions are discarded
+export const PARSER_VERSION = 5;
+
+export const DEFAULT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.astro', '.mdx'];
+
 export class ModuleParser {
-  private readonly extensions = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
-  private readonly importRegex = /^import\s+(?:(?:[\w*\s{},]*)\s+from\s+)?['"](.*?)['"];?$/gm;
-  private readonly requireRegex = /(?:const|let|var)\s+.*?=\s*require\(['"](.*?)['"]?\)/g;
-  private readonly dynamicImportRegex = /import\(['"](.*?)['"]?\)/g;
+  private readonly tsconfig = new TsConfigResolver();
+  readonly workspaces: WorkspaceResolver;
+  readonly cache: ParseCache | null;
+  // Files left out because they could not be read or parsed, until a later parse of them succeeds
+  readonly unparsedFiles = new Set<string>();
+  private poolFailed = false;
+
+  constructor(
+    private readonly extensions: string[] = DEFAULT_EXTENSIONS,
+    cacheLocation?: string,
+    private readonly resolveImport?: ImportResolver
+  ) {
+    this.workspaces = new WorkspaceResolver(extensions, this.tsconfig);
+    this.cache = cacheLocation ? new ParseCache(cacheLocation, `parser-v${PARSER_VERSION}`) : null;
+  }
+
+  /**
+   * Parses every source file under the directory. With a pool, files are scanned on its worker threads unless
+   * there are only a few; either way modules come back in directory traversal order.
+   */
+  async parseDirectory(dirPath: string, excludePatterns: string[] = [], pool: ParserPool | null = null): Promise<ModuleInfo[]> {
+    const files = await this.walkDirectory(dirPath, dirPath, excludePatterns);
+    
+    if (this.cache) {
+      const resolverConfig = JSON.stringify([
+        this.extensions,
+        this.tsconfig.fingerprint(files.map(file => dirname(file))),
+        this.workspaces.fingerprint([dirPath])
+      ]);
+      this.cache.useRoot(resolve(dirPath), files.map(file => resolve(file)), resolverConfig);
+    }
+    
+    const pooled = pool && files.length >= MIN_POOLED_FILES ? pool : null;
+    const modules = await Promise.all(files.map(file => pooled
+      ? this.parseFileInPool(file, dirPath, pooled)
+      : this.parseFile(file, dirPath)));
+    return this.withoutCollisions(modules.filter((module): module is ModuleInfo => module !== null));
+  }
+
+  // Files like `a.ts` next to `a.js` share a module name; the one resolution would pick is kept
+  private withoutCollisions(modules: ModuleInfo[]): ModuleInfo[] {
+    const rank = (module: ModuleInfo): number => this.extensions.indexOf(extname(module.path));
+    const kept = new Map<string, ModuleInfo>();
+    for (const module of modules) {
+      const other = kept.get(module.name);
+      if (!other) {
+        kept.set(module.name, module);
+        continue;
+      }
+      const [winner, loser] = rank(module) < rank(other) ? [module, other] : [other, module];
+      console.warn(`Skipping ${loser.path}: ${winner.path} has the same module name ${module.name}`);
+      kept.set(module.name, winner);
+    }
+    return modules.filter(module => kept.get(module.name) === module);
+  }
 
-  parseDirectory(dirPath: string, excludePatterns: string[] = []): ModuleInfo[] {
-    const modules: ModuleInfo[] = [];
-    this.walkDirectory(dirPath, dirPath, modules, excludePatterns);
-    return modules;
+  // Resolutions may change once files are added or removed, so long-running callers drop them
+  forgetResolutions(): void {
+    this.cache?.resetResolutions();
   }
 
-  private walkDirectory(currentPath: string, basePath: string, modules: ModuleInfo[], excludePatterns: string[]): void {
-    const entries = readdirSync(currentPath);
+  private async walkDirectory(currentPath: string, basePath: string, excludePatterns: string[]): Promise<string[]> {
+    const entries = await readdir(currentPath);
     
-    for (const entry of entries) {
+    // Entries are visited concurrently but their files are concatenated in readdir order
+    const files = await Promise.all(entries.map(async entry => {
       const fullPath = join(currentPath, entry);
-      const stat = statSync(fullPath);
+      const stats = await stat(fullPath);
       const relativePath = relative(basePath, fullPath);
       
       // Check if this path should be excluded
       if (this.isExcluded(relativePath, excludePatterns)) {
-        continue;
+        return [];
       }
       
-      if (stat.isDirectory()) {
-        if (entry !== 'node_modules' && !entry.startsWith('.')) {
-          this.walkDirectory(fullPath, basePath, modules, excludePatterns);
-        }
-      } else if (this.extensions.includes(extname(entry))) {
-        const moduleInfo = this.parseFile(fullPath, basePath);
-        if (moduleInfo) {
-          modules.push(moduleInfo);
-        }
+      if (stats.isDirectory()) {
+        return entry !== 'node_modules' && !entry.startsWith('.')
+          ? this.walkDirectory(fullPath, basePath, excludePatterns)
+          : [];
       }
-    }
+      return this.extensions.includes(extname(entry)) ? [fullPath] : [];
+    }));
+    
+    return files.flat();
   }
 
   private isExcluded(relativePath: string, excludePatterns: string[]): boolean {
     return excludePatterns.some(pattern => minimatch(relativePath, pattern));
   }
 
-  private parseFile(filePath: string, basePath: string): ModuleInfo | null {
+  // Whether parseDirectory would pick up this file: same extension, exclude and hidden-directory rules
+  isSourceFile(filePath: string, basePath: string, excludePatterns: string[] = []): boolean {
+    const relativePath = relative(basePath, filePath);
+    if (relativePath.startsWith('..') || !this.extensions.includes(extname(filePath))) {
+      return false;
+    }
+    
+    const segments = relativePath.split(/[\\/]/);
+    for (let i = 1; i <= segments.length; i++) {
+      if (this.isExcluded(segments.slice(0, i).join('/'), excludePatterns)) {
+        return false;
+      }
+    }
+    return segments.slice(0, -1).every(segment => segment !== 'node_modules' && !segment.startsWith('.'));
+  }
+
+  moduleNameOf(filePath: string, basePath: string): string {
+    return this.pathToModuleName(relative(basePath, filePath));
+  }
+
+  // `scanned` is the scan a worker already made of the file
+  parseFile(filePath: string, basePath: string, scanned?: ScanResult): ModuleInfo | null {
     try {
-      const content = readFileSync(filePath, 'utf-8');
-      const relativePath = relative(basePath, filePath);
-      const moduleName = this.pathToModuleName(relativePath);
-      const prefix = extractModulePrefix(moduleName);
-      
-      const dependencies = this.extractDependencies(content, filePath, basePath);
-      
-      return {
-        path: filePath,
-        name: moduleName,
-        prefix,
-        dependencies
-      };
+      const module = this.createModuleInfo(filePath, basePath, scanned || this.scanFile(filePath, this.cache?.knownHash(resolve(filePath))));
+      this.unparsedFiles.delete(resolve(filePath));
+      return module;
     } catch (error) {
       console.warn(`Failed to parse file ${filePath}:`, error);
+      this.unparsedFiles.add(resolve(filePath));
       return null;
     }
   }
 
+  // Reads a file and finds its imports, skipping the scan when its content still has the known hash
+  scanFile(filePath: string, knownHash?: string): ScanResult {
+    const content = readFileSync(filePath, 'utf-8');
+    const hash = hashOf(content);
+    return { hash, imports: hash === knownHash ? null : this.scanImports(content, filePath) };
+  }
+
+  // Files the pool can't scan, e.g. after its workers died, are parsed again on the main thread
+  private async parseFileInPool(filePath: string, basePath: string, pool: ParserPool): Promise<ModuleInfo | null> {
+    let scanned: ScanResult;
+    try {
+      scanned = await pool.scan(filePath, this.cache?.knownHash(resolve(filePath)));
+    } catch (error) {
+      if (!this.poolFailed) {
+        this.poolFailed = true;
+        console.warn(`Scanning ${filePath} on a worker failed, parsing such files on the main thread:`,
+          error instanceof Error ? error.message : error);
+      }
+      return this.parseFile(filePath, basePath);
+    }
+    return this.parseFile(filePath, basePath, scanned);
+  }
+
+  private createModuleInfo(filePath: string, basePath: string, scanned: ScanResult): ModuleInfo {
+    const moduleName = this.pathToModuleName(relative(basePath, filePath));
+    const imports = this.cache ? this.cache.record(resolve(filePath), scanned) : scanned.imports || [];
+    
+    const { dependencies, unresolved } = this.resolveDependencies(moduleName, imports, filePath, basePath);
+    
+    return {
+      path: filePath,
+      name: moduleName,
+      prefix: extractModulePrefix(moduleName),
+      dependencies,
+      ...(unresolved.length > 0 ? { unresolved } : {})
+    };
+  }
+
   private pathToModuleName(relativePath: string): string {
-    // Remove file extension and normalize path separators
-    return relativePath
-      .replace(/\.[^/.]+$/, '')
-      .replace(/\\/g, '/'); // Normalize to forward slashes
+    // Script extensions are dropped; components and MDX keep theirs, so `Button.mdx` and `Button.tsx` stay apart
+    const extension = extname(relativePath);
+    const name = SCRIPT_EXTENSIONS.includes(extension) ? relativePath.slice(0, -extension.length) : relativePath;
+    return name.replace(/\\/g, '/'); // Normalize to forward slashes
   }
 
 
-  private extractDependencies(content: string, filePath: string, basePath: string): ModuleDependency[] {
+  private resolveDependencies(
+    from: string,
+    imports: ScannedImport[],
+    filePath: string,
+    basePath: string
+  ): { dependencies: ModuleDependency[]; unresolved: UnresolvedImport[] } {
     const dependencies: ModuleDependency[] = [];
-    const lines = content.split('\n');
+    const unresolved: UnresolvedImport[] = [];
     
-    lines.forEach((line, index) => {
-      const lineNumber = index + 1;
-      
-      let match;
-      this.importRegex.lastIndex = 0;
-      while ((match = this.importRegex.exec(line)) !== null) {
-        const importPath = match[1];
-        if (this.isLocalImport(importPath)) {
-          const resolvedPath = this.resolveImportPath(importPath, filePath, basePath);
-          if (resolvedPath) {
-            dependencies.push({
-              from: this.pathToModuleName(relative(basePath, filePath)),
-              to: resolvedPath,
-              importType: 'import',
-              line: lineNumber
-            });
-          }
+    for (const scanned of imports) {
+      const resolvedPath = this.resolveLocalImport(scanned.specifier, filePath, basePath);
+      if (resolvedPath) {
+        dependencies.push({
+          from,
+          to: resolvedPath,
+          importType: scanned.importType,
+          line: scanned.line,
+          column: scanned.column,
+          ...(scanned.endLine ? { endLine: scanned.endLine } : {}),
+          ...(scanned.symbols ? { symbols: scanned.symbols } : {})
+        });
+      } else {
+        const candidates = this.unresolvedCandidates(scanned.specifier, filePath);
+        if (candidates) {
+          unresolved.push({
+            from,
+            file: filePath,
+            specifier: scanned.specifier,
+            importType: scanned.importType,
+            line: scanned.line,
+            column: scanned.column,
+            ...(scanned.endLine ? { endLine: scanned.endLine } : {}),
+            candidates
+          });
         }
       }
-      
-      this.requireRegex.lastIndex = 0;
-      while ((match = this.requireRegex.exec(line)) !== null) {
-        const requirePath = match[1];
-        if (this.isLocalImport(requirePath)) {
-          const resolvedPath = this.resolveImportPath(requirePath, filePath, basePath);
-          if (resolvedPath) {
-            dependencies.push({
-              from: this.pathToModuleName(relative(basePath, filePath)),
-              to: resolvedPath,
-              importType: 'require',
-              line: lineNumber
-            });
-          }
-        }
+    }
+    
+    return { dependencies, unresolved };
+  }
+
+  // The files an import that resolved to no module was looked up as, or null when it wasn't meant to name a
+  // local file: external packages and files that exist but aren't source code, like stylesheets
+  private unresolvedCandidates(importPath: string, currentFile: string): string[] | null {
+    if (this.resolveImport && this.resolveImport(importPath, resolve(currentFile)) !== undefined) {
+      return null;
+    }
+    if (this.workspaces.packageFor(importPath, currentFile)) {
+      return this.workspaces.candidates(importPath, currentFile);
+    }
+    if (this.isRelativeImport(importPath)) {
+      const target = resolve(dirname(currentFile), importPath);
+      if ((existsSync(target) && statSync(target).isFile()) || this.tsconfig.resolve(importPath, currentFile) !== null) {
+        return null;
       }
-      
-      this.dynamicImportRegex.lastIndex = 0;
-      while ((match = this.dynamicImportRegex.exec(line)) !== null) {
-        const dynamicPath = match[1];
-        if (this.isLocalImport(dynamicPath)) {
-          const resolvedPath = this.resolveImportPath(dynamicPath, filePath, basePath);
-          if (resolvedPath) {
-            dependencies.push({
-              from: this.pathToModuleName(relative(basePath, filePath)),
-              to: resolvedPath,
-              importType: 'dynamic',
-              line: lineNumber
-            });
-          }
+      const ownLookups = [
+        ...(this.extensions.includes(extname(target)) ? [target] : []),
+        ...this.extensions.map(ext => target + ext),
+        ...this.extensions.map(ext => join(target, `index${ext}`))
+      ];
+      return Array.from(new Set([...ownLookups, ...this.tsconfig.lookupLocations(importPath, currentFile)]));
+    }
+    if (!this.tsconfig.matchesPathAlias(importPath, currentFile) || this.tsconfig.resolve(importPath, currentFile) !== null) {
+      return null;
+    }
+    return this.tsconfig.lookupLocations(importPath, currentFile);
+  }
+
+  private scanImports(content: string, filePath: string): ScannedImport[] {
+    // Offsets are only needed for rewriting, so they stay out of the cache
+    return this.locateImports(content, filePath).map(location => {
+      const scanned: ScannedImport = { specifier: location.specifier, importType: location.importType, line: location.line, column: location.column };
+      return {
+        ...scanned,
+        ...(location.endLine ? { endLine: location.endLine } : {}),
+        ...(location.symbols ? { symbols: location.symbols } : {})
+      };
+    });
+  }
+
+  /**
+   * Every import of the content with the offsets of its specifier text (between the quotes), for rewriting
+   * specifiers in place. Line and column are those of the import, as in ModuleDependency.
+   */
+  locateImports(content: string, filePath: string): ImportLocation[] {
+    // Components and MDX are scanned through their scripts, blanked out in place so positions still match
+    const embedded = extractEmbeddedScript(content, filePath);
+    const sourceFile = embedded
+      ? ts.createSourceFile(filePath, embedded.code, ts.ScriptTarget.Latest, true, embedded.jsx ? ts.ScriptKind.TSX : ts.ScriptKind.TS)
+      : ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true, this.scriptKindFor(filePath));
+    
+    return this.collectImportReferences(sourceFile).map(reference => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(reference.node.getStart(sourceFile));
+      const endLine = sourceFile.getLineAndCharacterOfPosition(reference.node.getEnd()).line;
+      const location: ImportLocation = {
+        specifier: reference.literal.text,
+        importType: reference.importType,
+        line: line + 1,
+        column: character + 1,
+        ...(endLine > line ? { endLine: endLine + 1 } : {}),
+        start: reference.literal.getStart(sourceFile) + 1,
+        end: reference.literal.end - 1
+      };
+      return reference.symbols ? { ...location, symbols: reference.symbols } : location;
+    });
+  }
+
+  private resolveLocalImport(importPath: string, currentFile: string, basePath: string): string | null {
+    // A custom resolver has the first say; its answers can't be fingerprinted, so they are never cached
+    if (this.resolveImport) {
+      const resolvedFile = this.resolveImport(importPath, resolve(currentFile));
+      if (resolvedFile !== undefined) {
+        return resolvedFile === null ? null : this.resolvedModuleName(resolvedFile, importPath, basePath);
+      }
+    }
+    
+    const resolveUncached = (): string | null => {
+      // Packages of the workspace are imported by name, which would otherwise look like external packages
+      const workspaceFile = this.workspaces.resolve(importPath, currentFile);
+      if (workspaceFile !== undefined) {
+        // Entry points are files the manifest names, not directory imports, so they keep their own name
+        return workspaceFile === null ? null : this.pathToModuleName(relative(basePath, workspaceFile));
+      }
+      return this.isLocalImport(importPath, currentFile) ? this.resolveImportPath(importPath, currentFile, basePath) : null;
+    };
+    if (!this.cache) {
+      return resolveUncached();
+    }
+    
+    // Files in one directory share their tsconfig, so a specifier resolves the same way for all of them
+    const key = `${relative(basePath, dirname(currentFile)).replace(/\\/g, '/')}\0${importPath}`;
+    return this.cache.resolution(resolve(basePath), key, resolveUncached);
+  }
+
+  private collectImportReferences(sourceFile: ts.SourceFile): ImportReference[] {
+    const references: ImportReference[] = [];
+    
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node) && ts.isStringLiteral(node.moduleSpecifier)) {
+        // import x from '...', import { a, b } from '...', import type { T } from '...', import '...'
+        const importType = this.isTypeOnlyImport(node) ? 'type-only' : 'import';
+        references.push({ node, literal: node.moduleSpecifier, importType, symbols: this.importedSymbols(node) });
+      } else if (ts.isExportDeclaration(node) && node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)) {
+        // export { a } from '...', export * from '...', export type { T } from '...'
+        const importType = this.isTypeOnlyExport(node) ? 'type-only' : 're-export';
+        const clause = node.exportClause;
+        const symbols = clause && ts.isNamedExports(clause)
+          ? clause.elements.map(element => (element.propertyName || element.name).text)
+          : undefined;
+        references.push({ node, literal: node.moduleSpecifier, importType, symbols });
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+        // import x = require('...'), import type x = require('...')
+        const expression = node.moduleReference.expression;
+        if (ts.isStringLiteralLike(expression)) {
+          references.push({ node, literal: expression, importType: node.isTypeOnly ? 'type-only' : 'require' });
+        }
+      } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument) && ts.isStringLiteral(node.argument.literal)) {
+        // typeof import('...'), import('...').T
+        references.push({ node, literal: node.argument.literal, importType: 'type-only' });
+      } else if (ts.isCallExpression(node) && node.arguments.length > 0 && ts.isStringLiteralLike(node.arguments[0])) {
+        const literal = node.arguments[0];
+        if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+          // import('...')
+          references.push({ node, literal, importType: 'dynamic' });
+        } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+          // require('...')
+          references.push({ node, literal, importType: 'require' });
         }
       }
-    });
+      
+      ts.forEachChild(node, visit);
+    };
     
-    return dependencies;
+    visit(sourceFile);
+    return references;
   }
 
-  private isLocalImport(importPath: string): boolean {
-    return importPath.startsWith('./') || importPath.startsWith('../') || (!importPath.startsWith('@') && !importPath.includes('/'));
+  // Undefined for side-effect and namespace imports, which use the module as a whole
+  private importedSymbols(node: ts.ImportDeclaration): string[] | undefined {
+    const clause = node.importClause;
+    if (!clause || (clause.namedBindings && !ts.isNamedImports(clause.namedBindings))) {
+      return undefined;
+    }
+    
+    const symbols = clause.name ? ['default'] : [];
+    if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      symbols.push(...clause.namedBindings.elements.map(element => (element.propertyName || element.name).text));
+    }
+    return symbols;
+  }
+
+  private isTypeOnlyImport(node: ts.ImportDeclaration): boolean {
+    const clause = node.importClause;
+    if (!clause) {
+      return false;
+    }
+    if (clause.isTypeOnly) {
+      return true;
+    }
+    
+    // import { type A, type B } from '...' is erased just like import type { A, B }
+    const bindings = clause.namedBindings;
+    return !clause.name && bindings !== undefined && ts.isNamedImports(bindings) &&
+      bindings.elements.length > 0 && bindings.elements.every(element => element.isTypeOnly);
+  }
+
+  private isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+    if (node.isTypeOnly) {
+      return true;
+    }
+    
+    const clause = node.exportClause;
+    return clause !== undefined && ts.isNamedExports(clause) &&
+      clause.elements.length > 0 && clause.elements.every(element => element.isTypeOnly);
+  }
+
+  private scriptKindFor(filePath: string): ts.ScriptKind {
+    switch (extname(filePath)) {
+      case '.tsx':
+        return ts.ScriptKind.TSX;
+      case '.jsx':
+        return ts.ScriptKind.JSX;
+      case '.js':
+      case '.mjs':
+      case '.cjs':
+        return ts.ScriptKind.JS;
+      default:
+        return ts.ScriptKind.TS;
+    }
+  }
+
+  private isLocalImport(importPath: string, currentFile: string): boolean {
+    if (this.isRelativeImport(importPath) || this.tsconfig.matchesPathAlias(importPath, currentFile)) {
+      return true;
+    }
+    return this.tsconfig.hasBaseUrl(currentFile) || (!importPath.startsWith('@') && !importPath.includes('/'));
+  }
+
+  private isRelativeImport(importPath: string): boolean {
+    return importPath.startsWith('./') || importPath.startsWith('../');
   }
 
   private resolveImportPath(importPath: string, currentFile: string, basePath: string): string | null {
+    if (this.isRelativeImport(importPath)) {
+      // Fall back to the compiler for relative imports that only exist through rootDirs
+      return this.resolveFromPath(join(dirname(currentFile), importPath), basePath) ||
+        this.resolveWithTsConfig(importPath, currentFile, basePath);
+    }
+    
+    return this.resolveWithTsConfig(importPath, currentFile, basePath) ||
+      this.resolveFromPath(join(basePath, importPath), basePath);
+  }
+
+  private resolveWithTsConfig(importPath: string, currentFile: string, basePath: string): string | null {
+    const resolvedFile = this.tsconfig.resolve(importPath, currentFile);
+    if (!resolvedFile || !this.extensions.includes(extname(resolvedFile))) {
+      return null;
+    }
+    
+    return this.resolvedModuleName(resolvedFile, importPath, basePath);
+  }
+
+  private resolvedModuleName(resolvedFile: string, importPath: string, basePath: string): string {
+    const moduleName = this.pathToModuleName(relative(basePath, resolvedFile));
+    
+    // Directory imports name the directory itself, matching resolveFromPath
+    if (moduleName.endsWith('/index') && !/(^|\/)index$/.test(importPath)) {
+      return moduleName.slice(0, -'/index'.length);
+    }
+    
+    return moduleName;
+  }
+
+  private resolveFromPath(resolvedPath: string, basePath: string): string | null {
     try {
-      const currentDir = dirname(currentFile);
-      let resolvedPath: string;
-      
-      if (importPath.startsWith('./') || importPath.startsWith('../')) {
-        resolvedPath = join(currentDir, importPath);
-      } else {
-        resolvedPath = join(basePath, importPath);
+      // Imports of components and other files the compiler doesn't know name the file with its extension
+      if (this.extensions.includes(extname(resolvedPath))) {
+        try {
+          if (statSync(resolvedPath).isFile()) {
+            return this.pathToModuleName(relative(basePath, resolvedPath));
+          }
+        } catch { /* No such file, try it as an extensionless path */ }
       }
       
       for (const ext of this.extensions) {
@@ -0,0 +1,126 @@
+import { availableParallelism } from 'os';
+import { extname, join } from 'path';
+import { Worker } from 'worker_threads';
+import { ScanResult } from './cache';
+
+export const DEFAULT_CONCURRENCY = availableParallelism();
+
+// Below this many files, starting workers costs more than scanning them on the main thread
+export const MIN_POOLED_FILES = 200;
+
+export interface ScanTask {
+  id: number;
+  filePath: string;
+  knownHash?: string;
+}
+
+export interface ScanReply {
+  id: number;
+  result?: ScanResult;
+  error?: string;
+}
+
+interface PendingScan {
+  task: ScanTask;
+  resolve: (result: ScanResult) => void;
+  reject: (error: Error) => void;
+}
+
+function spawnWorker(): Worker {
+  const script = join(__dirname, `parse-worker${extname(__filename)}`);
+  if (extname(script) === '.ts') {
+    // Running from source under ts-node: the worker needs its own TypeScript hook
+    const bootstrap = `require('ts-node').register({ transpileOnly: true, compilerOptions: { module: 'commonjs' } });\nrequire(${JSON.stringify(script)});`;
+    return new Worker(bootstrap, { eval: true });
+  }
+  return new Worker(script);
+}
+
+// Scans files for imports on worker threads, one file in flight per worker. Workers start with the first scan.
+export class ParserPool {
+  private readonly workers: Worker[] = [];
+  private readonly idle: Worker[] = [];
+  private readonly queue: PendingScan[] = [];
+  private readonly running = new Map<Worker, PendingScan>();
+  private nextId = 0;
+  private started = false;
+  private closing = false;
+
+  constructor(private readonly size: number) {}
+
+  scan(filePath: string, knownHash?: string): Promise<ScanResult> {
+    this.start();
+    return new Promise((resolve, reject) => {
+      if (this.workers.length === 0) {
+        reject(new Error('All parser workers have exited'));
+        return;
+      }
+      this.queue.push({ task: { id: this.nextId++, filePath, knownHash }, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  async close(): Promise<void> {
+    this.closing = true;
+    await Promise.all(this.workers.map(worker => worker.terminate()));
+  }
+
+  private start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    for (let i = 0; i < this.size; i++) {
+      const worker = spawnWorker();
+      worker.on('message', (reply: ScanReply) => this.finish(worker, reply));
+      worker.on('error', error => this.fail(worker, error));
+      // A worker can also exit without an error, e.g. through process.exit in a dependency
+      worker.on('exit', code => {
+        if (!this.closing && this.workers.includes(worker)) {
+          this.fail(worker, new Error(`Parser worker exited with code ${code}`));
+        }
+      });
+      this.workers.push(worker);
+      this.idle.push(worker);
+    }
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop()!;
+      const pending = this.queue.shift()!;
+      this.running.set(worker, pending);
+      worker.postMessage(pending.task);
+    }
+  }
+
+  private finish(worker: Worker, reply: ScanReply): void {
+    const pending = this.running.get(worker);
+    this.running.delete(worker);
+    this.idle.push(worker);
+
+    if (pending) {
+      if (reply.result) {
+        pending.resolve(reply.result);
+      } else {
+        pending.reject(new Error(reply.error));
+      }
+    }
+    this.dispatch();
+  }
+
+  private fail(worker: Worker, error: Error): void {
+    // A crashed worker takes its current file with it; the remaining work goes to the others
+    const pending = this.running.get(worker);
+    this.running.delete(worker);
+    this.workers.splice(this.workers.indexOf(worker), 1);
+    if (this.idle.includes(worker)) {
+      this.idle.splice(this.idle.indexOf(worker), 1);
+    }
+    pending?.reject(error);
+
+    if (this.workers.length === 0) {
+      this.queue.splice(0).forEach(queued => queued.reject(error));
+    }
+  }
+}
@@ -0,0 +1,387 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join, relative } from 'path';
+import { GraphAnalyzer } from './graph';
+import { HtmlReporter } from './html-report';
+import { OrderOrder } from './orderorder';
+import { AnalysisResult, DependencyCycle, DependencyRule, FeedbackArc, GraphViewOptions, ModuleDependency, ReportFormat, Reporter } from './types';
+
+type FindingLevel = 'error' | 'warning' | 'note';
+
+// Where a finding points: an import, or for unresolved imports the specifier that led nowhere
+type FindingImport = Pick<ModuleDependency, 'from' | 'to' | 'importType' | 'line' | 'column'>;
+
+interface Finding {
+  ruleId: string;
+  ruleDescription: string;
+  level: FindingLevel;
+  message: string;
+  dependency: FindingImport;
+  file: string;
+}
+
+const TOOL_NAME = 'ts-module-isolation';
+const TOOL_URI = 'https://github.com/fumieval/ts-module-isolation';
+
+function toolVersion(): string {
+  try {
+    return JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8')).version;
+  } catch {
+    return '0.0.0';
+  }
+}
+
+function describeImport(dep: ModuleDependency): string {
+  return `${dep.from} imports ${dep.to} (${dep.importType})`;
+}
+
+// One rule ID per configured dependency rule, so code scanning can filter and dismiss findings per rule
+function dependencyRuleId(rule: DependencyRule, ruleIndex: number): string {
+  return `rule/${rule.name || `rule-${ruleIndex + 1}`}`;
+}
+
+function describeRule(rule: DependencyRule): string {
+  return rule.message || (rule.policy === 'deny' ? `${rule.from} must not import ${rule.to}` : `${rule.from} may import ${rule.to}`);
+}
+
+function importKey(dep: FindingImport): string {
+  return `${dep.from}\0${dep.to}\0${dep.line}\0${dep.column}`;
+}
+
+// Imports that close cycles, each once, with the cycles and feedback arcs they take part in
+function cyclicImports(violations: ModuleDependency[], cycles: DependencyCycle[], arcs: FeedbackArc[] = []): {
+  dep: ModuleDependency;
+  cycles: string[];
+  arc?: FeedbackArc;
+}[] {
+  const imports = new Map<string, { dep: ModuleDependency; cycles: string[]; arc?: FeedbackArc }>();
+  const entry = (dep: ModuleDependency): { dep: ModuleDependency; cycles: string[]; arc?: FeedbackArc } => {
+    const key = importKey(dep);
+    if (!imports.has(key)) {
+      imports.set(key, { dep, cycles: [] });
+    }
+    return imports.get(key)!;
+  };
+
+  violations.forEach(entry);
+  for (const cycle of cycles) {
+    for (const hop of cycle.hops) {
+      entry(hop.dependency).cycles.push(cycle.prefixes.join(' -> '));
+    }
+  }
+  for (const arc of arcs) {
+    for (const dep of arc.violations) {
+      entry(dep).arc = arc;
+    }
+  }
+  return Array.from(imports.values());
+}
+
+// Flattens everything a run reports into per-import findings, the shape shared by all CI formats.
+// An import closing a cycle is one finding, however many cycles and feedback arcs it belongs to.
+function collectFindings(result: AnalysisResult): Finding[] {
+  const findings: Finding[] = [];
+  const fileOf = (dep: FindingImport): string => {
+    const module = result.graph.modules.get(dep.from);
+    return (module ? relative(process.cwd(), module.path) : dep.from).replace(/\\/g, '/');
+  };
+  const unit = result.level === 'module' ? 'modules' : 'module prefixes';
+  const context = (cycles: string[], arc?: FeedbackArc): string => [
+    ...(cycles.length > 0 ? [`part of cycle ${cycles.join(', ')}`] : []),
+    ...(arc ? [`changing it helps break ${arc.from} -> ${arc.to}`] : [])
+  ].map(text => `; ${text}`).join('');
+
+  const cyclic = new Map<string, Finding>();
+  for (const { dep, cycles, arc } of cyclicImports(result.violations, result.cycles, result.feedbackArcs)) {
+    const prefixes = result.graph.modulePrefixes;
+    const finding: Finding = {
+      ruleId: 'cyclic-dependency',
+      ruleDescription: `Import between ${unit} that depend on each other`,
+      level: 'error',
+      message: `${describeImport(dep)}, closing a cycle between ${prefixes.get(dep.from)} and ${prefixes.get(dep.to)}${context(cycles, arc)}`,
+      dependency: dep,
+      file: fileOf(dep)
+    };
+    cyclic.set(importKey(dep), finding);
+    findings.push(finding);
+  }
+
+  for (const ruleViolation of result.ruleViolations) {
+    const rule = ruleViolation.rule;
+    const name = rule.name || `rule-${ruleViolation.ruleIndex + 1}`;
+    for (const dep of ruleViolation.dependencies) {
+      findings.push({
+        ruleId: dependencyRuleId(rule, ruleViolation.ruleIndex),
+        ruleDescription: describeRule(rule),
+        level: 'error',
+        message: `${ruleViolation.from} -> ${ruleViolation.to} violates ${name}: ${describeImport(dep)}`,
+        dependency: dep,
+        file: fileOf(dep)
+      });
+    }
+  }
+
+  // Package cycles don't fail the run, so they are warnings unless the import already closes a prefix cycle
+  if (result.packages) {
+    const packageOf = result.packages.graph.modulePrefixes;
+    for (const { dep, cycles } of cyclicImports(result.packages.violations, result.packages.cycles)) {
+      const packageCycle = `a cycle between packages ${packageOf.get(dep.from)} and ${packageOf.get(dep.to)}`;
+      const known = cyclic.get(importKey(dep));
+      if (known) {
+        known.message += `; also closes ${packageCycle}`;
+        continue;
+      }
+      findings.push({
+        ruleId: 'package-cycle',
+        ruleDescription: 'Import between workspace packages that depend on each other',
+        level: 'warning',
+        message: `${describeImport(dep)}, closing ${packageCycle}${context(cycles)}`,
+        dependency: dep,
+        file: fileOf(dep)
+      });
+    }
+  }
+
+  for (const dep of result.typeOnlyViolations) {
+    findings.push({
+      ruleId: 'type-only-cycle',
+      ruleDescription: 'Cycle that is only closed by imports erased at runtime',
+      level: 'warning',
+      message: `${describeImport(dep)} is part of a cycle closed by type-only imports`,
+      dependency: dep,
+      file: fileOf(dep)
+    });
+  }
+
+  for (const unresolved of result.unresolvedImports) {
+    const dependency = { ...unresolved, to: unresolved.specifier };
+    findings.push({
+      ruleId: 'unresolved-import',
+      ruleDescription: 'Relative, path alias or workspace package import that leads to no file',
+      level: 'warning',
+      message: `${unresolved.from} imports '${unresolved.specifier}', which resolves to no file` +
+        (unresolved.candidates.length > 0 ? ` (tried ${unresolved.candidates.length} path(s))` : ''),
+      dependency,
+      file: fileOf(dependency)
+    });
+  }
+
+  return findings;
+}
+
+export class TextReporter implements Reporter {
+  readonly label = 'Report';
+
+  constructor(private readonly orderorder: OrderOrder) {}
+
+  render(result: AnalysisResult): string {
+    return this.orderorder.generateReport(result);
+  }
+}
+
+export class JsonReporter implements Reporter {
+  readonly label = 'JSON report';
+
+  render(result: AnalysisResult): string {
+    const totalImports = Array.from(result.graph.modules.values())
+      .reduce((sum, module) => sum + module.dependencies.length, 0);
+
+    return JSON.stringify({
+      summary: {
+        level: result.level,
+        totalModules: result.graph.modules.size,
+        totalImports: totalImports,
+        prefixCount: result.graph.prefixDependencies.size,
+        violationCount: result.violations.length,
+        feedbackArcCount: result.feedbackArcs.length,
+        cycleCount: result.cycles.length,
+        typeOnlyViolationCount: result.typeOnlyViolations.length,
+        ruleViolationCount: result.ruleViolations.length,
+        unresolvedImportCount: result.unresolvedImports.length,
+        unparsedFileCount: result.unparsedFiles.length,
+        baselineSuppressedCount: result.baseline ? result.baseline.suppressed : 0,
+        since: result.since ? result.since.ref : null,
+        isAcyclic: new GraphAnalyzer().isAcyclic(result.graph)
+      },
+      feedbackArcs: result.feedbackArcs,
+      cycles: result.cycles.map(cycle => ({ chain: cycle.prefixes.join(' -> '), ...cycle })),
+      violations: result.violations,
+      typeOnlyViolations: result.typeOnlyViolations,
+      ruleViolations: result.ruleViolations,
+      unresolvedImports: result.unresolvedImports,
+      unparsedFiles: result.unparsedFiles,
+      fixedBaselineEntries: result.baseline ? result.baseline.fixed : [],
+      ...(result.packages ? {
+        packages: {
+          cycles: result.packages.cycles.map(cycle => ({ chain: cycle.prefixes.join(' -> '), ...cycle })),
+          feedbackArcs: result.packages.feedbackArcs,
+          violations: result.packages.violations,
+          packageDependencies: Object.fromEntries(
+            Array.from(result.packages.graph.prefixDependencies.entries()).map(([key, value]) => [key, Array.from(value)])
+          )
+        }
+      } : {}),
+      prefixDependencies: Object.fromEntries(
+        Array.from(result.graph.prefixDependencies.entries()).map(
+          ([key, value]) => [key, Array.from(value)]
+        )
+      )
+    }, null, 2);
+  }
+}
+
+export class DotReporter implements Reporter {
+  readonly label = 'DOT graph';
+
+  constructor(private readonly orderorder: OrderOrder, private readonly view: GraphViewOptions = {}) {}
+
+  render(result: AnalysisResult): string {
+    return this.orderorder.generateDotGraph(result.graph, result.feedbackArcs, this.view);
+  }
+}
+
+export class MermaidReporter implements Reporter {
+  readonly label = 'Mermaid graph';
+
+  constructor(private readonly orderorder: OrderOrder, private readonly view: GraphViewOptions = {}) {}
+
+  render(result: AnalysisResult): string {
+    return this.orderorder.generateMermaidGraph(result.graph, result.feedbackArcs, this.view);
+  }
+}
+
+export class SarifReporter implements Reporter {
+  readonly label = 'SARIF report';
+
+  // Every configured dependency rule is listed, whether or not it was violated
+  constructor(private readonly dependencyRules: DependencyRule[] = []) {}
+
+  render(result: AnalysisResult): string {
+    const findings = collectFindings(result);
+    const rules = new Map<string, { description: string; level: FindingLevel | 'none' }>();
+    for (const finding of findings) {
+      if (!rules.has(finding.ruleId)) {
+        rules.set(finding.ruleId, { description: finding.ruleDescription, level: finding.level });
+      }
+    }
+    this.dependencyRules.forEach((rule, index) => {
+      const id = dependencyRuleId(rule, index);
+      if (!rules.has(id)) {
+        // Allow rules only make exceptions and never produce results of their own
+        rules.set(id, { description: describeRule(rule), level: rule.policy === 'deny' ? 'error' : 'none' });
+      }
+    });
+    const ruleIndex = new Map(Array.from(rules.keys()).map((id, index) => [id, index]));
+
+    return JSON.stringify({
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: toolVersion(),
+            informationUri: TOOL_URI,
+            rules: Array.from(rules.entries()).map(([id, rule]) => ({
+              id,
+              shortDescription: { text: rule.description },
+              defaultConfiguration: { level: rule.level }
+            }))
+          }
+        },
+        results: findings.map(finding => ({
+          ruleId: finding.ruleId,
+          ruleIndex: ruleIndex.get(finding.ruleId),
+          level: finding.level,
+          message: { text: finding.message },
+          locations: [{
+            physicalLocation: {
+              artifactLocation: { uri: finding.file },
+              region: { startLine: finding.dependency.line, startColumn: finding.dependency.column }
+            }
+          }]
+        }))
+      }]
+    }, null, 2);
+  }
+}
+
+export class GithubReporter implements Reporter {
+  readonly label = 'GitHub annotations';
+
+  render(result: AnalysisResult): string {
+    const commands = { error: 'error', warning: 'warning', note: 'notice' };
+
+    return collectFindings(result).map(finding => {
+      const properties = [
+        `file=${this.escapeProperty(finding.file)}`,
+        `line=${finding.dependency.line}`,
+        `col=${finding.dependency.column}`,
+        `title=${this.escapeProperty(finding.ruleId)}`
+      ].join(',');
+      return `::${commands[finding.level]} ${properties}::${this.escapeData(finding.message)}`;
+    }).join('\n');
+  }
+
+  private escapeData(value: string): string {
+    return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+  }
+
+  private escapeProperty(value: string): string {
+    return this.escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+  }
+}
+
+export class GitlabReporter implements Reporter {
+  readonly label = 'GitLab Code Quality report';
+
+  render(result: AnalysisResult): string {
+    const severities = { error: 'major', warning: 'minor', note: 'info' };
+    const occurrences = new Map<string, number>();
+
+    return JSON.stringify(collectFindings(result).map(finding => {
+      // Fingerprints ignore line numbers so an issue keeps its identity when code above it moves
+      const dep = finding.dependency;
+      const identity = [finding.ruleId, dep.from, dep.to, dep.importType].join('\0');
+      const occurrence = occurrences.get(identity) || 0;
+      occurrences.set(identity, occurrence + 1);
+
+      return {
+        description: finding.message,
+        check_name: finding.ruleId,
+        fingerprint: createHash('md5').update(`${identity}\0${occurrence}`).digest('hex'),
+        severity: severities[finding.level],
+        location: {
+          path: finding.file,
+          lines: { begin: dep.line }
+        }
+      };
+    }), null, 2);
+  }
+}
+
+export function createReporter(
+  format: ReportFormat,
+  orderorder: OrderOrder,
+  view: GraphViewOptions = {},
+  rules: DependencyRule[] = []
+): Reporter {
+  switch (format) {
+    case 'json':
+      return new JsonReporter();
+    case 'dot':
+      return new DotReporter(orderorder, view);
+    case 'mermaid':
+      return new MermaidReporter(orderorder, view);
+    case 'sarif':
+      return new SarifReporter(rules);
+    case 'github':
+      return new GithubReporter();
+    case 'gitlab':
+      return new GitlabReporter();
+    case 'html':
+      return new HtmlReporter();
+    default:
+      return new TextReporter(orderorder);
+  }
+}
\ No newline at end of file
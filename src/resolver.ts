@@ -0,0 +1,215 @@
+import { dirname, extname, resolve } from 'path';
+import * as ts from 'typescript';
+
+// Extensions the compiler resolves on its own
+export const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.mts', '.cts', '.json'];
+
+// Suffix under which the compiler is asked for other files: `./App.vue` is looked up as `./App.vue.ts`
+const VERBATIM_SUFFIX = '.ts';
+
+export class TsConfigResolver {
+  private readonly configPathCache = new Map<string, string | null>();
+  private readonly parsedConfigCache = new Map<string, ts.ParsedCommandLine | null>();
+  // Every import of a file asks for its options, so they are looked up once per file
+  private readonly optionsCache = new Map<string, ts.CompilerOptions>();
+  private readonly fileNameCache = new WeakMap<ts.ParsedCommandLine, Set<string>>();
+
+  /**
+   * Compiler options that apply to a source file: those of the nearest tsconfig.json,
+   * or of the project it references that actually includes the file (solution-style configs).
+   */
+  getCompilerOptions(filePath: string): ts.CompilerOptions {
+    const absolutePath = resolve(filePath);
+    let options = this.optionsCache.get(absolutePath);
+    if (!options) {
+      options = this.findCompilerOptions(absolutePath);
+      this.optionsCache.set(absolutePath, options);
+    }
+    return options;
+  }
+
+  matchesPathAlias(specifier: string, filePath: string): boolean {
+    const paths = this.getCompilerOptions(filePath).paths;
+    if (!paths) {
+      return false;
+    }
+
+    return Object.keys(paths).some(pattern => {
+      const wildcard = pattern.indexOf('*');
+      if (wildcard === -1) {
+        return specifier === pattern;
+      }
+      const prefix = pattern.slice(0, wildcard);
+      const suffix = pattern.slice(wildcard + 1);
+      return specifier.length >= prefix.length + suffix.length &&
+        specifier.startsWith(prefix) &&
+        specifier.endsWith(suffix);
+    });
+  }
+
+  hasBaseUrl(filePath: string): boolean {
+    return this.getCompilerOptions(filePath).baseUrl !== undefined;
+  }
+
+  /**
+   * Resolves a specifier the way the TypeScript compiler would, honouring `paths`, `baseUrl`
+   * and `rootDirs`. Returns the absolute path of the resolved file, or null when the specifier
+   * cannot be resolved or points into an external library.
+   */
+  resolve(specifier: string, containingFile: string): string | null {
+    const options = this.getCompilerOptions(containingFile);
+    const { resolvedModule } = ts.resolveModuleName(specifier, resolve(containingFile), options, ts.sys);
+
+    if (!resolvedModule) {
+      return extname(specifier) && !SCRIPT_EXTENSIONS.includes(extname(specifier))
+        ? this.resolveVerbatim(specifier, containingFile, options)
+        : null;
+    }
+    if (resolvedModule.isExternalLibraryImport) {
+      return null;
+    }
+
+    return resolvedModule.resolvedFileName;
+  }
+
+  // The files the compiler looks for when resolving a specifier, leaving out those of external packages
+  lookupLocations(specifier: string, containingFile: string): string[] {
+    const locations = new Set<string>();
+    const host: ts.ModuleResolutionHost = {
+      ...ts.sys,
+      // Without it the compiler skips the files of missing directories instead of looking for them
+      directoryExists: undefined,
+      fileExists: fileName => {
+        if (!/[\\/]node_modules[\\/]/.test(fileName) && !fileName.endsWith('package.json')) {
+          locations.add(resolve(fileName));
+        }
+        return ts.sys.fileExists(fileName);
+      }
+    };
+    ts.resolveModuleName(specifier, resolve(containingFile), this.getCompilerOptions(containingFile), host);
+    return Array.from(locations);
+  }
+
+  // Resolves specifiers naming files the compiler doesn't know, like `@/components/App.vue`, through `paths` and `baseUrl`
+  private resolveVerbatim(specifier: string, containingFile: string, options: ts.CompilerOptions): string | null {
+    const host: ts.ModuleResolutionHost = {
+      ...ts.sys,
+      fileExists: fileName => fileName.endsWith(VERBATIM_SUFFIX) && ts.sys.fileExists(fileName.slice(0, -VERBATIM_SUFFIX.length))
+    };
+    const { resolvedModule } = ts.resolveModuleName(specifier, resolve(containingFile), options, host);
+
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport || !resolvedModule.resolvedFileName.endsWith(VERBATIM_SUFFIX)) {
+      return null;
+    }
+
+    return resolvedModule.resolvedFileName.slice(0, -VERBATIM_SUFFIX.length);
+  }
+
+  /**
+   * Identifies the configuration that governs resolution for files in these directories: the compiler
+   * options of each nearest tsconfig.json and of the projects it references.
+   */
+  fingerprint(directories: string[]): string {
+    const configs = new Map<string, ts.CompilerOptions | null>();
+    const collect = (configPath: string): void => {
+      if (configs.has(configPath)) {
+        return;
+      }
+      const config = this.loadConfig(configPath);
+      configs.set(configPath, config ? config.options : null);
+      for (const reference of config?.projectReferences || []) {
+        collect(ts.resolveProjectReferencePath(reference));
+      }
+    };
+
+    for (const directory of new Set(directories.map(dir => resolve(dir)))) {
+      const configPath = this.findNearestConfig(directory);
+      if (configPath) {
+        collect(configPath);
+      }
+    }
+
+    return JSON.stringify(Array.from(configs.entries()).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  private findCompilerOptions(filePath: string): ts.CompilerOptions {
+    const configPath = this.findNearestConfig(dirname(filePath));
+    if (!configPath) {
+      return {};
+    }
+
+    const config = this.loadConfig(configPath);
+    if (!config) {
+      return {};
+    }
+
+    const owner = this.findOwningProject(config, this.normalize(filePath), new Set([configPath]));
+    return (owner || config).options;
+  }
+
+  private findNearestConfig(directory: string): string | null {
+    if (this.configPathCache.has(directory)) {
+      return this.configPathCache.get(directory)!;
+    }
+
+    const configPath = ts.findConfigFile(directory, ts.sys.fileExists, 'tsconfig.json') || null;
+    this.configPathCache.set(directory, configPath);
+    return configPath;
+  }
+
+  private loadConfig(configPath: string): ts.ParsedCommandLine | null {
+    if (this.parsedConfigCache.has(configPath)) {
+      return this.parsedConfigCache.get(configPath)!;
+    }
+
+    let parsed: ts.ParsedCommandLine | null = null;
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+
+    if (error) {
+      console.warn(`Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+    } else {
+      // parseJsonConfigFileContent follows `extends` chains and resolves `paths`/`rootDirs` relative to their config
+      parsed = ts.parseJsonConfigFileContent(config, ts.sys, dirname(configPath), undefined, configPath);
+    }
+
+    this.parsedConfigCache.set(configPath, parsed);
+    return parsed;
+  }
+
+  private findOwningProject(
+    config: ts.ParsedCommandLine,
+    filePath: string,
+    seen: Set<string>
+  ): ts.ParsedCommandLine | null {
+    let fileNames = this.fileNameCache.get(config);
+    if (!fileNames) {
+      fileNames = new Set(config.fileNames.map(fileName => this.normalize(fileName)));
+      this.fileNameCache.set(config, fileNames);
+    }
+    if (fileNames.has(filePath)) {
+      return config;
+    }
+
+    for (const reference of config.projectReferences || []) {
+      const referencePath = ts.resolveProjectReferencePath(reference);
+      if (seen.has(referencePath)) {
+        continue;
+      }
+      seen.add(referencePath);
+
+      const referenced = this.loadConfig(referencePath);
+      if (referenced) {
+        const owner = this.findOwningProject(referenced, filePath, seen);
+        if (owner) {
+          return owner;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private normalize(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+  }
+}
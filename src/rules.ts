@@ -0,0 +1,69 @@
+import { DependencyGraph, DependencyRule, ModuleDependency, RuleEngineOptions, RuleViolation } from './types';
+import { matchesPrefixPattern } from './utils';
+
+export class RuleEngine {
+  constructor(
+    private readonly rules: DependencyRule[],
+    private readonly options: RuleEngineOptions = {}
+  ) {}
+
+  check(graph: DependencyGraph): RuleViolation[] {
+    const violations = new Map<string, RuleViolation>();
+    
+    for (const [fromPrefix, dependencies] of graph.prefixDependencies) {
+      for (const toPrefix of dependencies) {
+        // Cheap prefix-level pass first: skip edges that no deny rule could ever match
+        if (!this.rules.some(rule => rule.policy === 'deny' && this.matchesEdge(rule, fromPrefix, toPrefix))) {
+          continue;
+        }
+        
+        for (const dep of this.findDependencies(fromPrefix, toPrefix, graph)) {
+          const ruleIndex = this.rules.findIndex(rule => this.matches(rule, fromPrefix, toPrefix, dep));
+          if (ruleIndex === -1 || this.rules[ruleIndex].policy !== 'deny') {
+            continue;
+          }
+          
+          const key = `${ruleIndex}:${fromPrefix}->${toPrefix}`;
+          if (!violations.has(key)) {
+            violations.set(key, { rule: this.rules[ruleIndex], ruleIndex, from: fromPrefix, to: toPrefix, dependencies: [] });
+          }
+          violations.get(key)!.dependencies.push(dep);
+        }
+      }
+    }
+    
+    return Array.from(violations.values())
+      .sort((a, b) => a.ruleIndex - b.ruleIndex || a.from.localeCompare(b.from) || a.to.localeCompare(b.to));
+  }
+
+  private matchesEdge(rule: DependencyRule, fromPrefix: string, toPrefix: string): boolean {
+    return matchesPrefixPattern(fromPrefix, rule.from) && matchesPrefixPattern(toPrefix, rule.to);
+  }
+
+  private matches(rule: DependencyRule, fromPrefix: string, toPrefix: string, dep: ModuleDependency): boolean {
+    if (rule.importTypes && !rule.importTypes.includes(dep.importType)) {
+      return false;
+    }
+    return this.matchesEdge(rule, fromPrefix, toPrefix) && (!rule.check || rule.check(dep, { from: fromPrefix, to: toPrefix }));
+  }
+
+  private findDependencies(fromPrefix: string, toPrefix: string, graph: DependencyGraph): ModuleDependency[] {
+    const dependencies: ModuleDependency[] = [];
+    
+    for (const [, module] of graph.modules) {
+      if (module.prefix !== fromPrefix) {
+        continue;
+      }
+      for (const dep of module.dependencies) {
+        if (this.options.ignoreTypeImports && dep.importType === 'type-only') {
+          continue;
+        }
+        if (graph.modulePrefixes.get(dep.to) === toPrefix) {
+          dependencies.push(dep);
+        }
+      }
+    }
+    
+    return dependencies;
+  }
+}
\ No newline at end of file
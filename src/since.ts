@@ -0,0 +1,151 @@
+import { execFileSync } from 'child_process';
+import { resolve, sep } from 'path';
+import { AnalysisResult, ModuleDependency } from './types';
+
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+export interface ChangedLines {
+  ref: string;
+  // Absolute file path -> lines added or modified since the ref; null when the whole file is new
+  files: Map<string, Set<number> | null>;
+}
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8', maxBuffer: 256 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr;
+    throw new GitError(`Running git failed: ${(stderr || String(error)).trim()}`);
+  }
+}
+
+// Lines of the working tree that differ from where HEAD branched off the ref, including files git does not track yet
+export function changedLinesSince(ref: string, cwd: string = process.cwd()): ChangedLines {
+  const topLevel = git(['rev-parse', '--show-toplevel'], cwd).trim();
+  try {
+    git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], topLevel);
+  } catch {
+    throw new GitError(`Unknown git ref: ${ref}`);
+  }
+  // Commits that landed on the ref after the branch point are not changes of this branch
+  let mergeBase: string;
+  try {
+    mergeBase = git(['merge-base', ref, 'HEAD'], topLevel).trim();
+  } catch {
+    throw new GitError(`${ref} and HEAD have no common ancestor`);
+  }
+
+  const files = new Map<string, Set<number> | null>();
+  // Renamed files count as new: every module they contain got a new name
+  const diff = git(['-c', 'core.quotePath=false', 'diff', '--unified=0', '--no-color', '--no-ext-diff', '--no-renames', mergeBase, '--'], topLevel);
+  let current: Set<number> | null = null;
+  let previous = '';
+  for (const line of diff.split('\n')) {
+    const header = line.startsWith('+++ ') && previous.startsWith('--- ');
+    previous = line;
+    if (header) {
+      // Paths with spaces get a trailing tab
+      const target = line.slice(4).replace(/\t$/, '');
+      current = target === '/dev/null' ? null : new Set<number>();
+      if (current) {
+        files.set(resolve(topLevel, target.replace(/^b\//, '')), current);
+      }
+      continue;
+    }
+
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk && current) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      for (let i = start; i < start + count; i++) {
+        current.add(i);
+      }
+    }
+  }
+
+  const untracked = git(['ls-files', '--others', '--exclude-standard', '-z'], topLevel);
+  for (const file of untracked.split('\0').filter(file => file.length > 0)) {
+    files.set(resolve(topLevel, file), null);
+  }
+
+  return { ref, files };
+}
+
+function countChangedFiles(changes: ChangedLines, roots: string[]): number {
+  if (roots.length === 0) {
+    return changes.files.size;
+  }
+  const directories = roots.map(root => resolve(root));
+  return Array.from(changes.files.keys())
+    .filter(file => directories.some(dir => file === dir || file.startsWith(dir + sep)))
+    .length;
+}
+
+/**
+ * Keeps only the findings of imports changed since the ref: an import counts as changed when any line of its
+ * statement is. `roots` are the analysed directories, to count only the changed files inside them.
+ */
+export function applySince(result: AnalysisResult, changes: ChangedLines, roots: string[] = []): AnalysisResult {
+  const isChanged = (dep: Pick<ModuleDependency, 'from' | 'line' | 'endLine'>): boolean => {
+    const module = result.graph.modules.get(dep.from);
+    const filePath = module ? resolve(module.path) : '';
+    if (!changes.files.has(filePath)) {
+      return false;
+    }
+    const lines = changes.files.get(filePath);
+    if (!lines) {
+      return true;
+    }
+    for (let line = dep.line; line <= (dep.endLine ?? dep.line); line++) {
+      if (lines.has(line)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const violations = result.violations.filter(isChanged);
+  const newViolations = new Set(violations);
+
+  const feedbackArcs = result.feedbackArcs
+    .map(arc => ({ ...arc, violations: arc.violations.filter(dep => newViolations.has(dep)) }))
+    .filter(arc => arc.violations.length > 0);
+
+  // A cycle is new if one of its hops has a new import, and that import is what the cycle points at
+  const newImportsByEdge = new Map<string, ModuleDependency>();
+  for (const dep of violations) {
+    const edge = `${result.graph.modulePrefixes.get(dep.from)}\0${result.graph.modulePrefixes.get(dep.to)}`;
+    if (!newImportsByEdge.has(edge)) {
+      newImportsByEdge.set(edge, dep);
+    }
+  }
+  const cycles = result.cycles.flatMap(cycle => {
+    const closing = cycle.hops.find(hop => newImportsByEdge.has(`${hop.from}\0${hop.to}`));
+    if (!closing) {
+      return [];
+    }
+    const closedBy = newImportsByEdge.get(`${closing.from}\0${closing.to}`)!;
+    const hops = cycle.hops.map(hop => hop === closing ? { ...hop, dependency: closedBy } : hop);
+    return [{ ...cycle, hops, closedBy }];
+  });
+
+  const ruleViolations = result.ruleViolations
+    .map(ruleViolation => ({ ...ruleViolation, dependencies: ruleViolation.dependencies.filter(isChanged) }))
+    .filter(ruleViolation => ruleViolation.dependencies.length > 0);
+
+  return {
+    ...result,
+    violations,
+    feedbackArcs,
+    cycles,
+    ruleViolations,
+    typeOnlyViolations: result.typeOnlyViolations.filter(isChanged),
+    unresolvedImports: result.unresolvedImports.filter(isChanged),
+    since: { ref: changes.ref, changedFiles: countChangedFiles(changes, roots) }
+  };
+}
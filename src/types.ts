@@ -1,8 +1,15 @@
+export type ImportType = 'import' | 'require' | 'dynamic' | 'type-only' | 're-export';
+
 export interface ModuleDependency {
   from: string;
   to: string;
-  importType: 'import' | 'require' | 'dynamic';
+  importType: ImportType;
   line: number;
+  column: number;
+  // Last line of the import statement; set only when it spans several lines
+  endLine?: number;
+  // Names imported from the module ('default' for a default import); unset when the whole module is used
+  symbols?: string[];
 }
 
 export interface ModuleInfo {
@@ -10,21 +17,255 @@ export interface ModuleInfo {
   name: string;
   prefix: string;
   dependencies: ModuleDependency[];
+  // Local-looking imports that lead to no file; set only when there are any
+  unresolved?: UnresolvedImport[];
+}
+
+// A relative, path alias or workspace package import that resolves to nothing, so no dependency was recorded
+export interface UnresolvedImport {
+  from: string;
+  // The importing file, as in ModuleInfo.path
+  file: string;
+  specifier: string;
+  importType: ImportType;
+  line: number;
+  column: number;
+  endLine?: number;
+  // Absolute paths of the files that were looked for, in the order they were tried
+  candidates: string[];
 }
 
 export interface DependencyGraph {
   modules: Map<string, ModuleInfo>;
   prefixDependencies: Map<string, Set<string>>;
+  modulePrefixes: Map<string, string>;
 }
 
 export interface FeedbackArc {
   from: string;
   to: string;
   violations: ModuleDependency[];
+  // Ways to remove this edge, each checked by re-running cycle detection; cheapest first
+  fixes?: FixSuggestion[];
+}
+
+export interface FixSuggestion {
+  // Move whole modules to another prefix, or extract the symbols imported from them into a new module there
+  kind: 'move' | 'extract';
+  modules: string[];
+  target: string;
+  // For `extract`: the symbols the feedback arc's imports use
+  symbols?: string[];
+  // Import statements that have to be rewritten
+  importsChanged: number;
+  // Imports of the feedback arc that no longer take part in a cycle (always all of them)
+  removedImports: number;
+  // Imports still in cycles afterwards, anywhere in the graph
+  remainingViolations: number;
+}
+
+export interface CycleHop {
+  from: string;
+  to: string;
+  // One representative import for the hop; importCount says how many more back it up
+  dependency: ModuleDependency;
+  importCount: number;
+}
+
+export interface DependencyCycle {
+  // Closed chain of prefixes, e.g. ['ui/components', 'core/utils', 'ui/components']
+  prefixes: string[];
+  hops: CycleHop[];
+  // With --since, the new import that closed the cycle
+  closedBy?: ModuleDependency;
+}
+
+// How `type-only` imports, which are erased at runtime, take part in the analysis:
+// 'include' treats them like any other import, 'ignore' drops them from the graph and
+// 'warn' analyses the runtime graph but reports cycles closed by type imports separately.
+export type TypeImportPolicy = 'include' | 'ignore' | 'warn';
+
+export interface LayerRule {
+  pattern: string;
+  layer: string;
+}
+
+export interface PrefixOptions {
+  maxDepth?: number;
+  layers?: LayerRule[];
+  packageRoots?: string[];
+}
+
+// A sanctioned dependency between prefixes (glob patterns) that never counts towards cycles
+export interface AllowedEdge {
+  from: string;
+  to: string;
+}
+
+// Rules are checked in order against every import that crosses prefixes; the first rule whose
+// `from` and `to` globs (and `importTypes`, if given) match decides whether the import is allowed.
+export interface DependencyRule {
+  name?: string;
+  from: string;
+  to: string;
+  policy: 'allow' | 'deny';
+  importTypes?: ImportType[];
+  message?: string;
+  // Programmatic rules only: the rule matches just the imports this returns true for
+  check?: (dependency: ModuleDependency, edge: { from: string; to: string }) => boolean;
+}
+
+export interface RuleViolation {
+  rule: DependencyRule;
+  ruleIndex: number;
+  from: string;
+  to: string;
+  dependencies: ModuleDependency[];
+}
+
+export interface RuleEngineOptions {
+  ignoreTypeImports?: boolean;
+}
+
+export interface AnalyzeOptions {
+  level?: AnalysisLevel;
+  extensions?: string[];
+  typeImports?: TypeImportPolicy;
+  prefix?: PrefixOptions;
+  groupByPackage?: boolean;
+  allowedEdges?: AllowedEdge[];
+  rules?: DependencyRule[];
+  maxCycles?: number;
+  // Directory for the persistent parse cache; caching is off when unset
+  cacheLocation?: string;
+  // Number of threads scanning files; 1 scans on the main thread
+  concurrency?: number;
+  resolveImport?: ImportResolver;
+  prefixOf?: PrefixFunction;
+}
+
+// Resolves an import to the absolute path of a file. Returning null drops the import (an external
+// package, say); returning undefined leaves it to the built-in resolution.
+export type ImportResolver = (specifier: string, importingFile: string) => string | null | undefined;
+
+// Maps a module name to its prefix; `defaultPrefix` is what the configured grouping would have chosen
+export type PrefixFunction = (moduleName: string, defaultPrefix: string) => string;
+
+// 'prefix' analyses dependencies between module prefixes (directories), 'module' between individual files
+export type AnalysisLevel = 'prefix' | 'module';
+
+export interface GraphAnalyzerOptions {
+  ignoreTypeImports?: boolean;
+  prefix?: PrefixOptions;
+  // Overrides `prefix`; used for module-level analysis, where every file is its own node
+  prefixOf?: (modulePath: string) => string;
+  allowedEdges?: AllowedEdge[];
+}
+
+// Which part of the prefix graph the dot and mermaid formats draw
+export interface GraphViewOptions {
+  // Glob of the prefixes to centre on; the whole graph is drawn when unset
+  focus?: string;
+  // How many import hops around the focus to include (default 1)
+  depth?: number;
+  // Draw prefixes outside the focus as one node per top-level directory instead of leaving them out
+  collapse?: boolean;
+}
+
+export type ReportFormat = 'text' | 'json' | 'dot' | 'sarif' | 'github' | 'gitlab' | 'html' | 'mermaid';
+
+export interface OutputConfig {
+  format?: ReportFormat;
+  file?: string;
+  json?: boolean;
+  dot?: boolean;
+  verbose?: boolean;
+}
+
+export interface ModuleIsolationConfig {
+  level?: AnalysisLevel;
+  roots?: string[];
+  exclude?: string[];
+  extensions?: string[];
+  typeImports?: TypeImportPolicy;
+  prefix?: {
+    maxDepth?: number;
+    layers?: LayerRule[];
+    groupByPackage?: boolean;
+  };
+  allowedEdges?: AllowedEdge[];
+  rules?: DependencyRule[];
+  maxCycles?: number;
+  // Fail the run when an import can't be resolved
+  failOnUnresolved?: boolean;
+  baseline?: string;
+  // Globs of the entry points for the `unused` command, relative to the config file
+  entries?: string[];
+  // Globs of entry points kept alongside those of package.json, like worker scripts started by path
+  additionalEntries?: string[];
+  cache?: boolean;
+  cacheLocation?: string;
+  concurrency?: number;
+  output?: OutputConfig;
+}
+
+export interface BaselineEntry {
+  kind: 'cycle' | 'rule';
+  rule?: string;
+  from: string;
+  to: string;
+  importType: ImportType;
+  count: number;
+}
+
+export interface Baseline {
+  version: number;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineSummary {
+  suppressed: number;
+  fixed: BaselineEntry[];
+}
+
+export interface CacheStats {
+  fileHits: number;
+  fileMisses: number;
+  resolutionHits: number;
+  resolutionMisses: number;
+}
+
+// The same imports analysed between the packages of a workspace instead of between prefixes
+export interface PackageAnalysis {
+  graph: DependencyGraph;
+  feedbackArcs: FeedbackArc[];
+  cycles: DependencyCycle[];
+  violations: ModuleDependency[];
+}
+
+// Renders an analysis in one output format; implemented in reporters.ts and html-report.ts
+export interface Reporter {
+  // Human readable name used in "... report written to <file>" messages
+  readonly label: string;
+  render(result: AnalysisResult): string;
 }
 
 export interface AnalysisResult {
+  level: AnalysisLevel;
   graph: DependencyGraph;
   feedbackArcs: FeedbackArc[];
+  cycles: DependencyCycle[];
   violations: ModuleDependency[];
+  typeOnlyViolations: ModuleDependency[];
+  ruleViolations: RuleViolation[];
+  // Relative, path alias and workspace package imports that lead to no file
+  unresolvedImports: UnresolvedImport[];
+  // Absolute paths of source files that could not be read or parsed and are missing from the graph
+  unparsedFiles: string[];
+  baseline?: BaselineSummary;
+  cache?: CacheStats;
+  // Set when only findings from imports changed since a git ref are reported
+  since?: { ref: string; changedFiles: number };
+  // Set when the analysed directories belong to a workspace with packages
+  packages?: PackageAnalysis;
 }
\ No newline at end of file
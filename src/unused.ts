@@ -0,0 +1,86 @@
+import { DependencyGraph, UnresolvedImport } from './types';
+
+export type UnusedFormat = 'text' | 'json';
+
+export interface UnusedReport {
+  // Modules the search started from
+  entries: string[];
+  // Modules no chain of imports leads to from any entry
+  unreachableModules: string[];
+  // Prefixes no other prefix imports and that contain no entry
+  unusedPrefixes: string[];
+  unresolvedImports: UnresolvedImport[];
+}
+
+export class UnusedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnusedError';
+  }
+}
+
+/**
+ * Walks the imports of the graph from the entry modules. Every kind of import counts, type-only ones
+ * included, since removing a module they lead to breaks the build all the same.
+ */
+export function findUnused(graph: DependencyGraph, entries: string[]): UnusedReport {
+  if (entries.length === 0) {
+    throw new UnusedError('No entry points found: pass --entry or declare main, module, bin or exports in package.json');
+  }
+
+  const reached = new Set<string>(entries);
+  const queue = [...entries];
+  for (let next = 0; next < queue.length; next++) {
+    const module = graph.modules.get(queue[next]);
+    for (const dep of module?.dependencies || []) {
+      // Directory imports are named after the directory, the module after its index file
+      const target = graph.modules.has(dep.to) ? dep.to : `${dep.to}/index`;
+      if (!reached.has(target)) {
+        reached.add(target);
+        queue.push(target);
+      }
+    }
+  }
+
+  const imported = new Set(Array.from(graph.prefixDependencies.values()).flatMap(targets => Array.from(targets)));
+  const entryPrefixes = new Set(entries.map(name => graph.modulePrefixes.get(name)));
+  const prefixes = new Set(Array.from(graph.modules.values()).map(module => module.prefix));
+
+  return {
+    entries: [...entries].sort(),
+    unreachableModules: Array.from(graph.modules.keys()).filter(name => !reached.has(name)).sort(),
+    unusedPrefixes: Array.from(prefixes).filter(prefix => !imported.has(prefix) && !entryPrefixes.has(prefix)).sort(),
+    unresolvedImports: Array.from(graph.modules.values()).flatMap(module => module.unresolved || [])
+  };
+}
+
+export function formatUnusedReport(report: UnusedReport): string {
+  const lines = [
+    `Entry points: ${report.entries.length}`,
+    `Unreachable modules: ${report.unreachableModules.length}`,
+    `Unused prefixes: ${report.unusedPrefixes.length}`,
+    `Unresolved imports: ${report.unresolvedImports.length}`
+  ];
+
+  if (report.unreachableModules.length > 0) {
+    lines.push('', 'Unreachable Modules:');
+    lines.push(...report.unreachableModules.map(name => `  ${name}`));
+  }
+  if (report.unusedPrefixes.length > 0) {
+    lines.push('', 'Unused Prefixes:');
+    lines.push(...report.unusedPrefixes.map(prefix => `  ${prefix}`));
+  }
+  if (report.unresolvedImports.length > 0) {
+    lines.push('', 'Unresolved Imports:');
+    lines.push(...report.unresolvedImports.map(unresolved =>
+      `  ${unresolved.from}:${unresolved.line}:${unresolved.column} '${unresolved.specifier}'`));
+  }
+  if (report.unreachableModules.length + report.unusedPrefixes.length + report.unresolvedImports.length === 0) {
+    lines.push('', '✅ Every module is reachable from an entry point');
+  }
+  return lines.join('\n');
+}
+
+export function formatUnused(report: UnusedReport, format: UnusedFormat): string {
+  return format === 'json' ? JSON.stringify(report, null, 2) : formatUnusedReport(report);
+}
@@ -1,4 +1,7 @@
-import { dirname } from 'path';
+import { existsSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import { minimatch } from 'minimatch';
+import { ModuleInfo, PrefixOptions } from './types';
 
 export function extractModulePrefix(modulePath: string): string {
   // Get directory part of the path
@@ -10,4 +13,65 @@ export function extractModulePrefix(modulePath: string): string {
   }
   
   return dir;
+}
+
+export function createPrefixExtractor(options: PrefixOptions = {}): (modulePath: string) => string {
+  const layers = options.layers || [];
+  // Longest package root first so nested packages win over their parents
+  const packageRoots = [...(options.packageRoots || [])].sort((a, b) => b.length - a.length);
+  
+  return (modulePath: string): string => {
+    const layer = layers.find(rule => minimatch(modulePath, rule.pattern));
+    if (layer) {
+      return layer.layer;
+    }
+    
+    const packageRoot = packageRoots.find(root => modulePath === root || modulePath.startsWith(`${root}/`));
+    if (packageRoot) {
+      return packageRoot;
+    }
+    
+    const prefix = extractModulePrefix(modulePath);
+    if (options.maxDepth === undefined || prefix === modulePath) {
+      return prefix;
+    }
+    
+    return prefix.split('/').slice(0, options.maxDepth).join('/');
+  };
+}
+
+export function createModuleLevelExtractor(moduleNames: { has(name: string): boolean }): (modulePath: string) => string {
+  // Directory imports are recorded under the directory name; map them back onto its index module
+  return (modulePath: string): string => {
+    if (!moduleNames.has(modulePath) && moduleNames.has(`${modulePath}/index`)) {
+      return `${modulePath}/index`;
+    }
+    return modulePath;
+  };
+}
+
+export function findPackageRoots(modules: ModuleInfo[], rootDir: string): string[] {
+  const root = resolve(rootDir);
+  const packageRoots = new Set<string>();
+  const checked = new Set<string>();
+  
+  for (const module of modules) {
+    let current = dirname(resolve(module.path));
+    
+    // Walk up to (but not including) the analysed root, which is the workspace itself
+    while (current !== root && current.startsWith(root) && !checked.has(current)) {
+      checked.add(current);
+      if (existsSync(join(current, 'package.json'))) {
+        packageRoots.add(relative(root, current).replace(/\\/g, '/'));
+      }
+      current = dirname(current);
+    }
+  }
+  
+  return Array.from(packageRoots).sort();
+}
+
+export function matchesPrefixPattern(prefix: string, pattern: string): boolean {
+  // `domain/**` should cover the `domain` prefix itself as well as everything below it
+  return minimatch(prefix, pattern) || (pattern.endsWith('/**') && minimatch(prefix, pattern.slice(0, -3)));
 }
\ No newline at end of file
@@ -0,0 +1,233 @@
+import { existsSync, watch } from 'fs';
+import { join, resolve, sep } from 'path';
+import { GraphAnalyzer } from './graph';
+import { ModuleParser } from './parser';
+import { DependencyCycle, DependencyGraph, FeedbackArc, ModuleInfo } from './types';
+
+const DEBOUNCE_MS = 100;
+
+export interface CycleDiff {
+  changedFiles: string[];
+  affectedPrefixes: string[];
+  introduced: DependencyCycle[];
+  resolved: DependencyCycle[];
+  cycleCount: number;
+  feedbackArcCount: number;
+}
+
+export interface WatchHandle {
+  analysis: IncrementalAnalysis;
+  close: () => void;
+}
+
+interface ComponentState {
+  component: Set<string>;
+  feedbackArcs: FeedbackArc[];
+  cycles: DependencyCycle[];
+}
+
+function cycleKey(cycle: DependencyCycle): string {
+  return cycle.prefixes.join(' -> ');
+}
+
+export class IncrementalAnalysis {
+  private graph: DependencyGraph | null = null;
+  private components: ComponentState[] = [];
+  private readonly roots: string[];
+  // Absolute file path -> module name, so deleted files can still be removed from the graph
+  private readonly fileModules = new Map<string, { root: string; name: string }>();
+
+  constructor(
+    private readonly parser: ModuleParser,
+    private readonly analyzer: GraphAnalyzer,
+    directories: string[],
+    private readonly excludePatterns: string[],
+    private readonly moduleNames: Set<string>,
+    private readonly maxCycles?: number
+  ) {
+    // Longest root first so files in nested roots belong to the innermost one
+    this.roots = directories.map(dir => resolve(dir)).sort((a, b) => b.length - a.length);
+  }
+
+  get cycles(): DependencyCycle[] {
+    return this.components.flatMap(state => state.cycles);
+  }
+
+  get feedbackArcs(): FeedbackArc[] {
+    return this.components.flatMap(state => state.feedbackArcs);
+  }
+
+  start(modules: ModuleInfo[]): void {
+    for (const module of modules) {
+      const filePath = resolve(module.path);
+      const root = this.rootOf(filePath);
+      if (root) {
+        this.fileModules.set(filePath, { root, name: module.name });
+      }
+    }
+
+    this.graph = this.analyzer.buildGraph(modules);
+    this.components = this.analyzer.findCyclicComponents(this.graph).map(component => this.analyzeComponent(component));
+  }
+
+  update(changedFiles: string[]): CycleDiff {
+    const graph = this.graph!;
+    const updated: ModuleInfo[] = [];
+    const removed: string[] = [];
+
+    // A created or deleted file can change what existing specifiers resolve to, and which module a
+    // directory import names at module level
+    const created = new Set<string>();
+    const deletedNames = new Set<string>();
+    const createdNames = new Set<string>();
+    for (const changedFile of changedFiles) {
+      const filePath = resolve(changedFile);
+      const root = this.rootOf(filePath);
+      const known = this.fileModules.get(filePath);
+      if (existsSync(filePath) && !known && root && this.parser.isSourceFile(filePath, root, this.excludePatterns)) {
+        created.add(filePath);
+        createdNames.add(this.parser.moduleNameOf(filePath, root));
+      } else if (!existsSync(filePath) && known) {
+        deletedNames.add(known.name);
+      }
+    }
+    if (created.size > 0 || deletedNames.size > 0) {
+      this.parser.forgetResolutions();
+      this.analyzer.forgetPrefixes();
+    }
+
+    const parsed = new Set<string>();
+    for (const changedFile of changedFiles) {
+      const filePath = resolve(changedFile);
+      const root = this.rootOf(filePath);
+      if (!root || !this.parser.isSourceFile(filePath, root, this.excludePatterns)) {
+        continue;
+      }
+
+      parsed.add(filePath);
+      const module = existsSync(filePath) ? this.parser.parseFile(filePath, root) : null;
+      const known = this.fileModules.get(filePath);
+      if (module) {
+        this.fileModules.set(filePath, { root, name: module.name });
+        this.moduleNames.add(module.name);
+        updated.push(module);
+      } else if (known) {
+        this.fileModules.delete(filePath);
+        this.moduleNames.delete(known.name);
+        removed.push(known.name);
+      }
+    }
+
+    // Importers of created or deleted files resolve differently now, so they are parsed again as well
+    for (const module of this.importersOf(graph, created, new Set([...createdNames, ...deletedNames]))) {
+      const filePath = resolve(module.path);
+      const root = this.rootOf(filePath);
+      const reparsed = root && !parsed.has(filePath) ? this.parser.parseFile(filePath, root) : null;
+      if (reparsed) {
+        parsed.add(filePath);
+        updated.push(reparsed);
+      }
+    }
+
+    const affected = this.analyzer.updateGraph(graph, updated, removed);
+
+    // Only components touching a changed prefix can have changed. Their old members, plus whatever the
+    // changed prefixes are now strongly connected to, form a union of new components to recompute.
+    const dirty = this.components.filter(state => Array.from(affected).some(prefix => state.component.has(prefix)));
+    const region = new Set<string>();
+    for (const state of dirty) {
+      state.component.forEach(node => region.add(node));
+    }
+    for (const prefix of affected) {
+      this.analyzer.componentOf(graph, prefix).forEach(node => region.add(node));
+    }
+
+    // Components merged into the region are recomputed as part of it
+    const stale = this.components.filter(state => Array.from(state.component).some(node => region.has(node)));
+    const fresh = this.analyzer.findCyclicComponents(graph, region).map(component => this.analyzeComponent(component));
+    this.components = [...this.components.filter(state => !stale.includes(state)), ...fresh]
+      .sort((a, b) => Array.from(a.component)[0].localeCompare(Array.from(b.component)[0]));
+
+    const before = new Map(stale.flatMap(state => state.cycles).map(cycle => [cycleKey(cycle), cycle]));
+    const after = new Map(fresh.flatMap(state => state.cycles).map(cycle => [cycleKey(cycle), cycle]));
+
+    return {
+      changedFiles,
+      affectedPrefixes: Array.from(affected).sort(),
+      introduced: Array.from(after.values()).filter(cycle => !before.has(cycleKey(cycle))),
+      resolved: Array.from(before.values()).filter(cycle => !after.has(cycleKey(cycle))),
+      cycleCount: this.cycles.length,
+      feedbackArcCount: this.feedbackArcs.length
+    };
+  }
+
+  // Modules importing one of the names, directly or as the directory of an index module, or whose
+  // unresolved imports tried one of the created files
+  private importersOf(graph: DependencyGraph, createdFiles: Set<string>, names: Set<string>): ModuleInfo[] {
+    if (names.size === 0) {
+      return [];
+    }
+    const targets = new Set(Array.from(names).flatMap(name => name.endsWith('/index') ? [name, name.slice(0, -'/index'.length)] : [name]));
+    return Array.from(graph.modules.values()).filter(module =>
+      module.dependencies.some(dep => targets.has(dep.to)) ||
+      (module.unresolved || []).some(unresolved => unresolved.candidates.some(candidate => createdFiles.has(resolve(candidate)))));
+  }
+
+  private analyzeComponent(component: Set<string>): ComponentState {
+    const graph = this.graph!;
+    return {
+      component,
+      feedbackArcs: this.analyzer.findFeedbackArcs(graph, [component]),
+      cycles: this.analyzer.findCycles(graph, this.maxCycles, [component])
+    };
+  }
+
+  private rootOf(filePath: string): string | null {
+    return this.roots.find(root => filePath === root || filePath.startsWith(root + sep)) || null;
+  }
+}
+
+// Collects file change events under the directories and reports them in debounced batches
+export function watchDirectories(directories: string[], onChange: (changedFiles: string[]) => void): () => void {
+  const pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const watchers = directories.map(dir => watch(dir, { recursive: true }, (_event, fileName) => {
+    if (!fileName) {
+      return;
+    }
+    pending.add(join(dir, fileName.toString()));
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      const changedFiles = Array.from(pending).sort();
+      pending.clear();
+      onChange(changedFiles);
+    }, DEBOUNCE_MS);
+  }));
+
+  return () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    watchers.forEach(watcher => watcher.close());
+  };
+}
+
+export function formatCycleDiff(diff: CycleDiff): string {
+  const time = new Date().toTimeString().slice(0, 8);
+  const lines = [`[${time}] ${diff.changedFiles.length} file(s) changed, re-analysed ${diff.affectedPrefixes.length} prefix(es)`];
+  for (const cycle of diff.introduced) {
+    lines.push(`  + ${cycleKey(cycle)}`);
+  }
+  for (const cycle of diff.resolved) {
+    lines.push(`  - ${cycleKey(cycle)}`);
+  }
+  if (diff.introduced.length === 0 && diff.resolved.length === 0) {
+    lines.push('  no cycles introduced or resolved');
+  }
+  lines.push(`  ${diff.cycleCount} cycle(s), ${diff.feedbackArcCount} feedback arc(s)`);
+  return lines.join('\n');
+}
\ No newline at end of file
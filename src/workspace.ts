@@ -0,0 +1,318 @@
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { minimatch } from 'minimatch';
+import { dirname, join, relative, resolve, sep } from 'path';
+import { TsConfigResolver } from './resolver';
+
+export interface WorkspacePackage {
+  name: string;
+  // Absolute directory containing the package's package.json
+  dir: string;
+  manifest: PackageManifest;
+}
+
+export interface Workspace {
+  root: string;
+  packages: WorkspacePackage[];
+}
+
+interface PackageManifest {
+  name?: string;
+  workspaces?: string[] | { packages?: string[] };
+  exports?: unknown;
+  source?: string;
+  types?: string;
+  typings?: string;
+  module?: string;
+  main?: string;
+  bin?: string | Record<string, string>;
+}
+
+// Export conditions in the order that most likely leads to the package's own source files
+const CONDITION_ORDER = ['source', 'types', 'typings', 'import', 'module', 'require', 'node', 'default'];
+
+// Typical build output directories, tried as `src` when an entry point points into them
+const BUILD_DIRECTORIES = ['dist', 'lib', 'build', 'out', 'esm', 'cjs'];
+
+const COMPILED_EXTENSION = /\.d\.[cm]?ts$|\.[cm]?[jt]sx?$/;
+
+function readManifest(filePath: string): PackageManifest | null {
+  try {
+    return JSON.parse(readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// The `packages:` list of a pnpm-workspace.yaml; the file is simple enough not to need a YAML parser
+function readPnpmPackages(filePath: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+  for (const line of readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+    } else if (inPackages && /^\S/.test(line)) {
+      inPackages = false;
+    } else if (inPackages) {
+      const item = /^\s*-\s*(['"]?)(.+?)\1\s*(#.*)?$/.exec(line);
+      if (item) {
+        patterns.push(item[2]);
+      }
+    }
+  }
+  return patterns;
+}
+
+function workspacePatterns(dir: string): string[] | null {
+  const pnpmWorkspace = join(dir, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    return readPnpmPackages(pnpmWorkspace);
+  }
+
+  const manifest = existsSync(join(dir, 'package.json')) ? readManifest(join(dir, 'package.json')) : null;
+  const workspaces = manifest?.workspaces;
+  if (!workspaces) {
+    return null;
+  }
+  return Array.isArray(workspaces) ? workspaces : workspaces.packages || [];
+}
+
+function findPackages(root: string, patterns: string[]): WorkspacePackage[] {
+  const include = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => pattern.replace(/^\.\//, '').replace(/\/$/, ''));
+  const exclude = patterns.filter(pattern => pattern.startsWith('!')).map(pattern => pattern.slice(1).replace(/^\.\//, '').replace(/\/$/, ''));
+  const packages: WorkspacePackage[] = [];
+
+  const walk = (dir: string): void => {
+    const relativeDir = relative(root, dir).replace(/\\/g, '/');
+    if (relativeDir && include.some(pattern => minimatch(relativeDir, pattern)) &&
+        !exclude.some(pattern => minimatch(relativeDir, pattern))) {
+      const manifest = readManifest(join(dir, 'package.json'));
+      if (manifest?.name) {
+        packages.push({ name: manifest.name, dir, manifest });
+      }
+    }
+    for (const entry of readdirSync(dir)) {
+      if (entry !== 'node_modules' && !entry.startsWith('.') && statSync(join(dir, entry)).isDirectory()) {
+        walk(join(dir, entry));
+      }
+    }
+  };
+  walk(root);
+
+  // Longest name first, so `@org/ui-kit` is matched before `@org/ui`
+  return packages.sort((a, b) => b.name.length - a.name.length || a.name.localeCompare(b.name));
+}
+
+/**
+ * Finds npm/yarn (`workspaces` in package.json) and pnpm (pnpm-workspace.yaml) workspaces and resolves
+ * imports of their packages, like `@org/pkg` or `@org/pkg/sub`, to the packages' source files.
+ */
+export class WorkspaceResolver {
+  private readonly workspaceCache = new Map<string, Workspace | null>();
+
+  constructor(private readonly extensions: string[], private readonly tsconfig: TsConfigResolver) {}
+
+  // The nearest workspace containing the directory
+  workspaceOf(directory: string): Workspace | null {
+    const dir = resolve(directory);
+    if (this.workspaceCache.has(dir)) {
+      return this.workspaceCache.get(dir)!;
+    }
+
+    const patterns = workspacePatterns(dir);
+    let workspace: Workspace | null;
+    if (patterns) {
+      workspace = { root: dir, packages: findPackages(dir, patterns) };
+    } else {
+      workspace = dirname(dir) === dir ? null : this.workspaceOf(dirname(dir));
+    }
+    this.workspaceCache.set(dir, workspace);
+    return workspace;
+  }
+
+  packageOf(filePath: string): WorkspacePackage | null {
+    const workspace = this.workspaceOf(dirname(resolve(filePath)));
+    if (!workspace) {
+      return null;
+    }
+    // Deepest directory first so nested packages win over their parents
+    const containing = workspace.packages.filter(pkg => resolve(filePath).startsWith(pkg.dir + sep));
+    return containing.sort((a, b) => b.dir.length - a.dir.length)[0] || null;
+  }
+
+  // The package of the importing file's workspace that a specifier names
+  packageFor(specifier: string, importingFile: string): WorkspacePackage | null {
+    const workspace = this.workspaceOf(dirname(resolve(importingFile)));
+    return workspace?.packages.find(candidate => specifier === candidate.name || specifier.startsWith(`${candidate.name}/`)) || null;
+  }
+
+  /**
+   * The absolute source file an import of a workspace package points to. Undefined when the specifier
+   * names no package of the importing file's workspace, null when it does but no source file was found.
+   */
+  resolve(specifier: string, importingFile: string): string | null | undefined {
+    const pkg = this.packageFor(specifier, importingFile);
+    if (!pkg) {
+      return undefined;
+    }
+
+    for (const target of this.targetsOf(pkg, specifier)) {
+      const file = this.findSourceFile(pkg.dir, target);
+      if (file) {
+        return file;
+      }
+    }
+    return null;
+  }
+
+  // Every file an import of a workspace package could have resolved to, in the order they are tried
+  candidates(specifier: string, importingFile: string): string[] {
+    const pkg = this.packageFor(specifier, importingFile);
+    return pkg ? Array.from(new Set(this.targetsOf(pkg, specifier).flatMap(target => this.sourceCandidates(pkg.dir, target)))) : [];
+  }
+
+  /**
+   * Source files of the entry points that the package.json files of a directory declare through `main`,
+   * `module`, `bin` and `exports`: the nearest manifest at or above the directory and those of the
+   * workspace packages inside it. Subpath patterns like "./*" name no file and are skipped.
+   */
+  entryPoints(directory: string): string[] {
+    const dir = resolve(directory);
+    const packageDirs: string[] = [];
+    for (let current = dir; ; current = dirname(current)) {
+      if (existsSync(join(current, 'package.json'))) {
+        packageDirs.push(current);
+        break;
+      }
+      if (dirname(current) === current) {
+        break;
+      }
+    }
+    for (const pkg of this.workspaceOf(dir)?.packages || []) {
+      if (pkg.dir.startsWith(dir + sep) && !packageDirs.includes(pkg.dir)) {
+        packageDirs.push(pkg.dir);
+      }
+    }
+
+    const files = new Set<string>();
+    for (const packageDir of packageDirs) {
+      const manifest = readManifest(join(packageDir, 'package.json'));
+      if (!manifest) {
+        continue;
+      }
+      const bin = typeof manifest.bin === 'string' ? [manifest.bin] : Object.values(manifest.bin || {});
+      const targets = [manifest.main, manifest.module, ...bin, ...this.conditionTargets(manifest.exports)]
+        .filter((target): target is string => typeof target === 'string' && !target.includes('*'));
+      for (const target of targets) {
+        const file = this.findSourceFile(packageDir, target);
+        if (file) {
+          files.add(file);
+        }
+      }
+    }
+    return Array.from(files).sort();
+  }
+
+  // Everything about the workspaces of these directories that affects resolution, for cache invalidation
+  fingerprint(directories: string[]): string {
+    const workspaces = new Map<string, Workspace>();
+    for (const directory of directories) {
+      const workspace = this.workspaceOf(directory);
+      if (workspace) {
+        workspaces.set(workspace.root, workspace);
+      }
+    }
+    return JSON.stringify(Array.from(workspaces.values()).sort((a, b) => a.root.localeCompare(b.root)));
+  }
+
+  // Entry points of the package that the specifier's subpath leads to
+  private targetsOf(pkg: WorkspacePackage, specifier: string): string[] {
+    const subpath = specifier === pkg.name ? '.' : `.${specifier.slice(pkg.name.length)}`;
+    const manifest = pkg.manifest;
+    if (manifest.exports !== undefined) {
+      return this.exportTargets(manifest.exports, subpath);
+    }
+    if (subpath === '.') {
+      return [manifest.source, manifest.types, manifest.typings, manifest.module, manifest.main, './index']
+        .filter((target): target is string => typeof target === 'string');
+    }
+    return [subpath];
+  }
+
+  private exportTargets(exportsField: unknown, subpath: string): string[] {
+    if (typeof exportsField === 'string' || Array.isArray(exportsField)) {
+      return subpath === '.' ? this.conditionTargets(exportsField) : [];
+    }
+    if (!exportsField || typeof exportsField !== 'object') {
+      return [];
+    }
+
+    const entries = exportsField as Record<string, unknown>;
+    const keys = Object.keys(entries);
+    if (keys.every(key => !key.startsWith('.'))) {
+      // A conditions object for the main entry point
+      return subpath === '.' ? this.conditionTargets(entries) : [];
+    }
+    if (subpath in entries) {
+      return this.conditionTargets(entries[subpath]);
+    }
+
+    // Subpath patterns such as "./*" or "./features/*.js"; the longest matching prefix wins
+    const pattern = keys
+      .filter(key => {
+        const star = key.indexOf('*');
+        return star !== -1 && subpath.startsWith(key.slice(0, star)) && subpath.endsWith(key.slice(star + 1)) &&
+          subpath.length >= key.length - 1;
+      })
+      .sort((a, b) => b.indexOf('*') - a.indexOf('*'))[0];
+    if (!pattern) {
+      return [];
+    }
+    const star = pattern.indexOf('*');
+    const match = subpath.slice(star, subpath.length - (pattern.length - star - 1));
+    return this.conditionTargets(entries[pattern]).map(target => target.split('*').join(match));
+  }
+
+  private conditionTargets(value: unknown): string[] {
+    if (typeof value === 'string') {
+      return [value];
+    }
+    if (Array.isArray(value)) {
+      return value.flatMap(item => this.conditionTargets(item));
+    }
+    if (!value || typeof value !== 'object') {
+      return [];
+    }
+
+    const conditions = value as Record<string, unknown>;
+    const ordered = [
+      ...CONDITION_ORDER.filter(condition => condition in conditions),
+      ...Object.keys(conditions).filter(condition => !CONDITION_ORDER.includes(condition))
+    ];
+    return ordered.flatMap(condition => this.conditionTargets(conditions[condition]));
+  }
+
+  // Entry points usually name build output; map them back to the sources they were compiled from
+  private findSourceFile(packageDir: string, target: string): string | null {
+    return this.sourceCandidates(packageDir, target).find(file => existsSync(file) && statSync(file).isFile()) || null;
+  }
+
+  private sourceCandidates(packageDir: string, target: string): string[] {
+    const compiled = resolve(packageDir, target);
+    const stem = compiled.replace(COMPILED_EXTENSION, '');
+    const stems = [stem];
+
+    const { outDir, rootDir } = this.tsconfig.getCompilerOptions(join(packageDir, 'package.json'));
+    if (outDir && rootDir && stem.startsWith(resolve(outDir) + sep)) {
+      stems.push(join(resolve(rootDir), relative(resolve(outDir), stem)));
+    }
+    const segments = relative(packageDir, stem).split(/[\\/]/);
+    if (segments.length > 1 && BUILD_DIRECTORIES.includes(segments[0])) {
+      stems.push(join(packageDir, 'src', ...segments.slice(1)));
+    }
+    if (segments.length === 1) {
+      stems.push(join(packageDir, 'src', segments[0]));
+    }
+
+    return stems.flatMap(candidate => this.extensions.flatMap(ext => [candidate + ext, join(candidate, `index${ext}`)]));
+  }
+}